@@ -2,10 +2,82 @@ import sql from 'mssql';
 import { Logger } from 'pino';
 import { MssqlMcpError, ErrorType } from './errors.js';
 import nodeParser from 'node-sql-parser';
+import { createHash, randomBytes } from 'crypto';
+import {
+  applyKeysetPagination,
+  applyRowFilters,
+  applyServerPagination,
+  collectTableReferences,
+  decodeKeysetCursor,
+  encodeKeysetCursor,
+  getSingleTableReference,
+  parseFilterPredicate,
+  renamePredicateParameters,
+  resolveColumnSources,
+  resolveKeysetKeys,
+  resolveTableReference,
+  toSql,
+  KeysetCursor,
+  KeysetKey,
+  SqlAst,
+  TableReference
+} from './queryRewriter.js';
+import { flattenPlanOperators, summarizeShowplan, PlanSummary } from './showplan.js';
+import { parseProcedureParameterDefaults } from './procedureDefinition.js';
+import { parseSqlTypeSpec, SUPPORTED_TYPE_FORMS } from './sqlTypeSpec.js';
+import {
+  loadAccessPolicy,
+  evaluateProcedurePolicy,
+  findDeniedColumnRule,
+  findDeniedTableRule,
+  findRowFilters,
+  hasColumnRulesFor,
+  hasRowFilters,
+  hasTableRules,
+  AccessPolicy
+} from './policy.js';
+import { createRecordsetMasker, findSourceMaskingRule, hasMaskingRules, MaskingContext } from './masking.js';
+import { AccessTokenSource } from './accessToken.js';
+import type { AuthenticationSettings } from './config.js';
+import { findReadOnlyViolation, findReadOnlyViolationInText, isLocalTempTable, validateUnparsedQuery, ReadOnlyViolation } from './readOnlyValidator.js';
+import {
+  analyzeWriteStatement,
+  buildAffectedRowsSelect,
+  buildIdentitySelect,
+  buildKeyLookupSelect,
+  buildWrittenValuesSelects,
+  WriteStatement,
+  WriteStatementType
+} from './writeStatement.js';
 
 // Default maximum rows returned per recordset if not configured
 const DEFAULT_MAX_ROWS = 1000;
 
+// Number of costliest plan operators reported when the cost guard rejects a query
+const MAX_REPORTED_OPERATORS = 5;
+
+// Changed rows shown before and after an execute_write dry run
+const WRITE_SAMPLE_ROWS = 10;
+
+// How long the confirmation token of an execute_write dry run can be used to commit it
+const WRITE_CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// Sessions (pinned connections) open at once, and how long an unused one stays open, if not configured
+const DEFAULT_MAX_SESSIONS = 5;
+const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Pools kept for databases other than the default one, connections per pool, and how long an
+// unused one stays open, if not configured
+const DEFAULT_DATABASE_POOLS = 8;
+const DEFAULT_DATABASE_POOL_CONNECTIONS = 2;
+const DEFAULT_DATABASE_POOL_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+// A database pool unused for this long runs a test query before it is handed out again
+const DATABASE_POOL_HEALTH_CHECK_IDLE_MS = 30 * 1000;
+
+// mssql's pool size when pool.max is not configured
+const DEFAULT_POOL_MAX = 10;
+
 // System stored procedures that are never allowed to be executed
 const DENIED_SYSTEM_PROCEDURES: ReadonlySet<string> = new Set([
   'xp_cmdshell',
@@ -56,6 +128,8 @@ export interface SqlConfig {
   user: string;
   password?: string;
   database: string;
+  // Login mode; `default` (SQL login with user and password) when omitted
+  authentication?: AuthenticationSettings;
   requestTimeout?: number;
   connectionTimeout?: number;
   maxRetries: number;
@@ -63,7 +137,19 @@ export interface SqlConfig {
   maxRetryDelay: number;
   schemaCacheTTL: number;
   maxRows?: number;
+  // Estimated-plan thresholds checked before executeQuery runs a query (0 disables)
+  maxEstimatedCost?: number;
+  maxEstimatedRows?: number;
   allowedDatabases?: string[];
+  // JSON access policy (stored procedure allow/deny rules) loaded at startup
+  policyFile?: string;
+  // Run queries node-sql-parser rejects if the token-based read-only validator accepts them
+  allowUnparsedQueries?: boolean;
+  // Register execute_write for INSERT/UPDATE/DELETE/MERGE statements
+  enableWrites?: boolean;
+  // Limit on open sessions, and idle time after which a session is closed
+  maxSessions?: number;
+  sessionIdleTimeoutMs?: number;
   options?: {
     encrypt?: boolean;
     trustServerCertificate?: boolean;
@@ -75,33 +161,414 @@ export interface SqlConfig {
     idleTimeoutMillis?: number;
     [key: string]: any;
   };
+  // Pools for databases other than `database`: how many are kept, their size and idle timeout
+  databasePools?: {
+    max?: number;
+    connections?: number;
+    idleTimeoutMs?: number;
+  };
+  // Cap on connections across the main pool, database pools and sessions (0 for no limit)
+  maxConnections?: number;
   logLevel?: string;
+  // Named server profiles, each served by its own DatabaseService
+  profiles?: Record<string, ServerProfile>;
 }
 
+// Connection settings a named server profile overrides
+export type ServerProfile = Pick<SqlConfig,
+  'server' | 'port' | 'user' | 'password' | 'database' | 'authentication' | 'connectionTimeout' | 'requestTimeout' |
+  'maxRetries' | 'initialRetryDelay' | 'maxRetryDelay' | 'allowedDatabases' | 'options' | 'pool' |
+  'databasePools' | 'maxConnections'>;
+
 // Type definitions
-interface TableSchema {
+export interface ColumnSchema {
+  name: string;
+  type: string;
+  nullable: boolean;
+  primary: boolean;
+  identity?: boolean;
+  // Expression of a computed column
+  computed?: string;
+  default?: string;
+  description?: string;
+}
+
+export interface ForeignKeySchema {
+  name: string;
+  columns: string[];
+  referencedTable: string;
+  referencedColumns: string[];
+  onDelete: string;
+  onUpdate: string;
+}
+
+export interface IndexSchema {
+  name: string;
+  columns: string[];
+  includedColumns: string[];
+  unique: boolean;
+  clustered: boolean;
+  primaryKey: boolean;
+}
+
+export interface TableSchema {
   schema: string;
   name: string;
   fullName: string;
-  columns: Array<{
-    name: string;
-    type: string;
-    nullable: boolean;
-    primary: boolean;
-  }>;
+  objectType: 'table' | 'view';
+  description?: string;
+  columns: ColumnSchema[];
+  foreignKeys: ForeignKeySchema[];
+  indexes: IndexSchema[];
 }
 
-interface SchemaQueryRow {
-  TABLE_SCHEMA: string;
-  TABLE_NAME: string;
-  COLUMN_NAME: string;
-  DATA_TYPE: string;
-  CHARACTER_MAXIMUM_LENGTH: number | null;
+export interface ProcedureParameterSchema {
+  name: string;
+  type: string;
+  direction: 'input' | 'output';
+  // Unknown (omitted) when the procedure definition is encrypted or unavailable
+  hasDefault?: boolean;
+  default?: string;
+  // Table-valued parameter of a user-defined table type
+  tableType?: boolean;
+}
+
+export interface ProcedureSchema {
+  schema: string;
+  name: string;
+  fullName: string;
+  description?: string;
+  parameters: ProcedureParameterSchema[];
+}
+
+interface ProcedureParameterRow {
+  SCHEMA_NAME: string;
+  PROCEDURE_NAME: string;
+  DESCRIPTION: string | null;
+  DEFINITION: string | null;
+  PARAMETER_NAME: string | null;
+  DATA_TYPE: string | null;
+  SYSTEM_TYPE: string | null;
+  TYPE_SCHEMA: string | null;
+  MAX_LENGTH: number | null;
   NUMERIC_PRECISION: number | null;
   NUMERIC_SCALE: number | null;
-  IS_NULLABLE: 'YES' | 'NO';
+  IS_OUTPUT: boolean | null;
+  HAS_DEFAULT_VALUE: boolean | null;
+  DEFAULT_VALUE: unknown;
+  IS_TABLE_TYPE: boolean | null;
+}
+
+// Type facets of a sys.parameters or sys.columns row
+type CatalogTypeFacets = Pick<ProcedureParameterRow, 'DATA_TYPE' | 'SYSTEM_TYPE' | 'MAX_LENGTH' | 'NUMERIC_PRECISION' | 'NUMERIC_SCALE'>;
+
+interface TableTypeColumnRow extends CatalogTypeFacets {
+  SCHEMA_NAME: string;
+  TYPE_NAME: string;
+  COLUMN_NAME: string;
+  IS_NULLABLE: boolean;
+  IS_IDENTITY: boolean;
+  IS_COMPUTED: boolean;
+}
+
+// Columns of a user-defined table type, used to build table-valued parameters
+const TABLE_TYPE_QUERY = `
+  SELECT
+      s.name AS SCHEMA_NAME,
+      tt.name AS TYPE_NAME,
+      c.name AS COLUMN_NAME,
+      TYPE_NAME(c.user_type_id) AS DATA_TYPE,
+      TYPE_NAME(c.system_type_id) AS SYSTEM_TYPE,
+      c.max_length AS MAX_LENGTH,
+      c.precision AS NUMERIC_PRECISION,
+      c.scale AS NUMERIC_SCALE,
+      c.is_nullable AS IS_NULLABLE,
+      c.is_identity AS IS_IDENTITY,
+      c.is_computed AS IS_COMPUTED
+  FROM sys.table_types tt
+  INNER JOIN sys.schemas s ON s.schema_id = tt.schema_id
+  INNER JOIN sys.columns c ON c.object_id = tt.type_table_object_id
+  WHERE s.name = @schemaName AND tt.name = @typeName
+  ORDER BY c.column_id;
+`;
+
+interface TableTypeColumn {
+  name: string;
+  // Declared type, e.g. nvarchar(50)
+  type: string;
+  // Lowercased underlying system type
+  baseType: string;
+  // Maximum length in characters (or bytes for binary types); -1 for max
+  maxLength: number;
+  sqlType: sql.ISqlType;
+  nullable: boolean;
+}
+
+interface TableTypeSchema {
+  schema: string;
+  name: string;
+  fullName: string;
+  columns: TableTypeColumn[];
+}
+
+const INTEGER_RANGES: Record<string, [number, number]> = {
+  tinyint: [0, 255],
+  smallint: [-32768, 32767],
+  int: [-2147483648, 2147483647],
+  bigint: [Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER],
+};
+const DECIMAL_TYPES: ReadonlySet<string> = new Set(['decimal', 'numeric', 'money', 'smallmoney', 'float', 'real']);
+const CHARACTER_TYPES: ReadonlySet<string> = new Set(['char', 'varchar', 'nchar', 'nvarchar', 'text', 'ntext', 'xml']);
+const BINARY_TYPES: ReadonlySet<string> = new Set(['binary', 'varbinary', 'image']);
+const DATE_TYPES: ReadonlySet<string> = new Set(['date', 'datetime', 'datetime2', 'smalldatetime', 'datetimeoffset']);
+const GUID_PATTERN = /^\{?[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}?$/i;
+
+/**
+ * Check one table-valued parameter cell against its column type and convert it to what the
+ * driver expects (numbers, booleans, Dates, Buffers from base64). Returns an error message
+ * describing the mismatch instead when the value does not fit.
+ */
+function convertTableTypeValue(column: TableTypeColumn, value: unknown): { value: unknown } | { error: string } {
+  if (value === null || value === undefined) {
+    return column.nullable ? { value: null } : { error: 'cannot be NULL' };
+  }
+  const type = column.baseType;
+
+  if (type in INTEGER_RANGES) {
+    const n = typeof value === 'string' && /^\s*-?\d+\s*$/.test(value) ? Number(value) : value;
+    if (typeof n !== 'number' || !Number.isInteger(n)) return { error: `expects an integer (${column.type})` };
+    const [min, max] = INTEGER_RANGES[type];
+    return n < min || n > max ? { error: `is out of range for ${column.type}` } : { value: n };
+  }
+  if (DECIMAL_TYPES.has(type)) {
+    const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? { value: n } : { error: `expects a number (${column.type})` };
+  }
+  if (type === 'bit') {
+    if (typeof value === 'boolean') return { value };
+    return value === 0 || value === 1 ? { value: value === 1 } : { error: 'expects a boolean (bit)' };
+  }
+  if (CHARACTER_TYPES.has(type)) {
+    if (typeof value !== 'string') return { error: `expects a string (${column.type})` };
+    return column.maxLength !== -1 && LENGTH_TYPES.has(type) && value.length > column.maxLength
+      ? { error: `exceeds the maximum length of ${column.type}` }
+      : { value };
+  }
+  if (BINARY_TYPES.has(type)) {
+    const buffer = Buffer.isBuffer(value) ? value
+      : typeof value === 'string' && /^[A-Za-z0-9+/]*={0,2}$/.test(value) ? Buffer.from(value, 'base64')
+      : null;
+    if (!buffer) return { error: `expects base64-encoded bytes (${column.type})` };
+    return column.maxLength !== -1 && LENGTH_TYPES.has(type) && buffer.length > column.maxLength
+      ? { error: `exceeds the maximum length of ${column.type}` }
+      : { value: buffer };
+  }
+  if (DATE_TYPES.has(type)) {
+    const date = value instanceof Date ? value : typeof value === 'string' ? new Date(value) : null;
+    return date && !isNaN(date.getTime()) ? { value: date } : { error: `expects an ISO 8601 date/time string (${column.type})` };
+  }
+  if (type === 'time') {
+    const match = typeof value === 'string' ? /^(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,7}))?)?$/.exec(value.trim()) : null;
+    if (!match) return { error: `expects a time of day as hh:mm[:ss[.fffffff]] (${column.type})` };
+    const [, h, m, sec, fraction] = match;
+    const ms = fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0;
+    return { value: new Date(Date.UTC(1970, 0, 1, Number(h), Number(m), Number(sec ?? 0), ms)) };
+  }
+  if (type === 'uniqueidentifier') {
+    return typeof value === 'string' && GUID_PATTERN.test(value) ? { value } : { error: 'expects a GUID string (uniqueidentifier)' };
+  }
+  return { value };
+}
+
+// Procedure signature together with the mssql types its parameters bind as, keyed by lowercased name
+interface ResolvedProcedure {
+  schema: ProcedureSchema;
+  parameterTypes: Map<string, sql.ISqlType>;
+}
+
+// Procedures and their parameters from sys.procedures/sys.parameters. The module definition is only
+// read for a single procedure (@procedureName set), where it is parsed for parameter defaults.
+const PROCEDURE_METADATA_QUERY = `
+  SELECT
+      s.name AS SCHEMA_NAME,
+      p.name AS PROCEDURE_NAME,
+      CAST(ep.value AS nvarchar(4000)) AS DESCRIPTION,
+      CASE WHEN @procedureName IS NULL THEN NULL ELSE OBJECT_DEFINITION(p.object_id) END AS DEFINITION,
+      prm.name AS PARAMETER_NAME,
+      TYPE_NAME(prm.user_type_id) AS DATA_TYPE,
+      TYPE_NAME(prm.system_type_id) AS SYSTEM_TYPE,
+      SCHEMA_NAME(t.schema_id) AS TYPE_SCHEMA,
+      prm.max_length AS MAX_LENGTH,
+      prm.precision AS NUMERIC_PRECISION,
+      prm.scale AS NUMERIC_SCALE,
+      prm.is_output AS IS_OUTPUT,
+      prm.has_default_value AS HAS_DEFAULT_VALUE,
+      prm.default_value AS DEFAULT_VALUE,
+      t.is_table_type AS IS_TABLE_TYPE
+  FROM sys.procedures p
+  INNER JOIN sys.schemas s ON s.schema_id = p.schema_id
+  LEFT JOIN sys.parameters prm ON prm.object_id = p.object_id AND prm.parameter_id > 0
+  LEFT JOIN sys.types t ON t.user_type_id = prm.user_type_id
+  LEFT JOIN sys.extended_properties ep ON ep.class = 1 AND ep.major_id = p.object_id AND ep.minor_id = 0 AND ep.name = 'MS_Description'
+  WHERE p.is_ms_shipped = 0
+    AND (@procedureName IS NULL OR (s.name = @schemaName AND p.name = @procedureName))
+  ORDER BY s.name, p.name, prm.parameter_id;
+`;
+
+// Lightweight entry of the per-database object list
+export interface SchemaObjectSummary {
+  schema: string;
+  name: string;
+  objectType: 'table' | 'view';
+}
+
+interface SchemaColumnRow {
+  SCHEMA_NAME: string;
+  OBJECT_NAME: string;
+  OBJECT_TYPE: string;
+  OBJECT_DESCRIPTION: string | null;
+  COLUMN_NAME: string;
+  DATA_TYPE: string;
+  SYSTEM_TYPE: string;
+  MAX_LENGTH: number;
+  NUMERIC_PRECISION: number;
+  NUMERIC_SCALE: number;
+  IS_NULLABLE: boolean;
   IS_PRIMARY_KEY: 0 | 1;
-  ORDINAL_POSITION: number;
+  IS_IDENTITY: boolean;
+  COMPUTED_DEFINITION: string | null;
+  DEFAULT_DEFINITION: string | null;
+  COLUMN_DESCRIPTION: string | null;
+}
+
+interface SchemaForeignKeyRow {
+  FK_NAME: string;
+  SCHEMA_NAME: string;
+  TABLE_NAME: string;
+  COLUMN_NAME: string;
+  REFERENCED_SCHEMA: string;
+  REFERENCED_TABLE: string;
+  REFERENCED_COLUMN: string;
+  ON_DELETE: string;
+  ON_UPDATE: string;
+}
+
+interface SchemaIndexRow {
+  SCHEMA_NAME: string;
+  OBJECT_NAME: string;
+  INDEX_NAME: string;
+  INDEX_TYPE: string;
+  IS_UNIQUE: boolean;
+  IS_PRIMARY_KEY: boolean;
+  COLUMN_NAME: string;
+  IS_INCLUDED: boolean;
+  IS_DESCENDING: boolean;
+}
+
+// Catalog queries behind getSchema/getTableSchema, run as one batch returning columns, foreign keys
+// and indexes. Only user tables ('U') and views ('V') are included; @schemaName/@objectName narrow
+// the batch to a single object, or are NULL to load the whole database.
+const SCHEMA_METADATA_QUERY = `
+  SELECT
+      s.name AS SCHEMA_NAME,
+      o.name AS OBJECT_NAME,
+      o.type AS OBJECT_TYPE,
+      CAST(oep.value AS nvarchar(4000)) AS OBJECT_DESCRIPTION,
+      c.name AS COLUMN_NAME,
+      TYPE_NAME(c.user_type_id) AS DATA_TYPE,
+      TYPE_NAME(c.system_type_id) AS SYSTEM_TYPE,
+      c.max_length AS MAX_LENGTH,
+      c.precision AS NUMERIC_PRECISION,
+      c.scale AS NUMERIC_SCALE,
+      c.is_nullable AS IS_NULLABLE,
+      CASE WHEN pk.column_id IS NOT NULL THEN 1 ELSE 0 END AS IS_PRIMARY_KEY,
+      c.is_identity AS IS_IDENTITY,
+      cc.definition AS COMPUTED_DEFINITION,
+      dc.definition AS DEFAULT_DEFINITION,
+      CAST(cep.value AS nvarchar(4000)) AS COLUMN_DESCRIPTION
+  FROM sys.objects o
+  INNER JOIN sys.schemas s ON s.schema_id = o.schema_id
+  INNER JOIN sys.columns c ON c.object_id = o.object_id
+  LEFT JOIN sys.computed_columns cc ON cc.object_id = c.object_id AND cc.column_id = c.column_id
+  LEFT JOIN sys.default_constraints dc ON dc.object_id = c.default_object_id
+  LEFT JOIN sys.extended_properties oep ON oep.class = 1 AND oep.major_id = o.object_id AND oep.minor_id = 0 AND oep.name = 'MS_Description'
+  LEFT JOIN sys.extended_properties cep ON cep.class = 1 AND cep.major_id = c.object_id AND cep.minor_id = c.column_id AND cep.name = 'MS_Description'
+  LEFT JOIN (
+      SELECT ic.object_id, ic.column_id
+      FROM sys.indexes i
+      INNER JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+      WHERE i.is_primary_key = 1
+  ) pk ON pk.object_id = c.object_id AND pk.column_id = c.column_id
+  WHERE o.type IN ('U', 'V') AND o.is_ms_shipped = 0
+    AND (@objectName IS NULL OR (s.name = @schemaName AND o.name = @objectName))
+  ORDER BY s.name, o.name, c.column_id;
+
+  SELECT
+      fk.name AS FK_NAME,
+      ps.name AS SCHEMA_NAME,
+      pt.name AS TABLE_NAME,
+      pc.name AS COLUMN_NAME,
+      rs.name AS REFERENCED_SCHEMA,
+      rt.name AS REFERENCED_TABLE,
+      rc.name AS REFERENCED_COLUMN,
+      fk.delete_referential_action_desc AS ON_DELETE,
+      fk.update_referential_action_desc AS ON_UPDATE
+  FROM sys.foreign_keys fk
+  INNER JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+  INNER JOIN sys.objects pt ON pt.object_id = fk.parent_object_id
+  INNER JOIN sys.schemas ps ON ps.schema_id = pt.schema_id
+  INNER JOIN sys.columns pc ON pc.object_id = fkc.parent_object_id AND pc.column_id = fkc.parent_column_id
+  INNER JOIN sys.objects rt ON rt.object_id = fk.referenced_object_id
+  INNER JOIN sys.schemas rs ON rs.schema_id = rt.schema_id
+  INNER JOIN sys.columns rc ON rc.object_id = fkc.referenced_object_id AND rc.column_id = fkc.referenced_column_id
+  WHERE pt.is_ms_shipped = 0
+    AND (@objectName IS NULL OR (ps.name = @schemaName AND pt.name = @objectName))
+  ORDER BY ps.name, pt.name, fk.name, fkc.constraint_column_id;
+
+  SELECT
+      s.name AS SCHEMA_NAME,
+      o.name AS OBJECT_NAME,
+      i.name AS INDEX_NAME,
+      i.type_desc AS INDEX_TYPE,
+      i.is_unique AS IS_UNIQUE,
+      i.is_primary_key AS IS_PRIMARY_KEY,
+      c.name AS COLUMN_NAME,
+      ic.is_included_column AS IS_INCLUDED,
+      ic.is_descending_key AS IS_DESCENDING
+  FROM sys.indexes i
+  INNER JOIN sys.objects o ON o.object_id = i.object_id
+  INNER JOIN sys.schemas s ON s.schema_id = o.schema_id
+  INNER JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+  INNER JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+  WHERE o.type IN ('U', 'V') AND o.is_ms_shipped = 0 AND i.type > 0 AND i.is_hypothetical = 0
+    AND (@objectName IS NULL OR (s.name = @schemaName AND o.name = @objectName))
+  ORDER BY s.name, o.name, i.name, ic.is_included_column, ic.key_ordinal, ic.index_column_id;
+`;
+
+// Types whose declarations carry a length (in characters for n-types, bytes otherwise)
+const LENGTH_TYPES: ReadonlySet<string> = new Set(['char', 'varchar', 'nchar', 'nvarchar', 'binary', 'varbinary']);
+// Types whose declarations carry only a fractional-seconds scale
+const SCALE_TYPES: ReadonlySet<string> = new Set(['datetime2', 'datetimeoffset', 'time']);
+
+/**
+ * Render a column's declared type from sys.columns facets, e.g. nvarchar(50), varchar(max),
+ * decimal(18,4), datetime2(3). Alias types (e.g. sysname) are shown by name without facets.
+ */
+function formatColumnType(typeName: string, systemTypeName: string, maxLength: number, precision: number, scale: number): string {
+  if (typeName !== systemTypeName) {
+    return typeName;
+  }
+  if (LENGTH_TYPES.has(typeName)) {
+    if (maxLength === -1) return `${typeName}(max)`;
+    return `${typeName}(${typeName.startsWith('n') ? maxLength / 2 : maxLength})`;
+  }
+  if (typeName === 'decimal' || typeName === 'numeric') {
+    return `${typeName}(${precision},${scale})`;
+  }
+  if (SCALE_TYPES.has(typeName)) {
+    return `${typeName}(${scale})`;
+  }
+  return typeName;
 }
 
 // Shared interface for a single recordset
@@ -120,6 +587,8 @@ export interface QueryResultSuccess {
     limit: number;
     hasMore: boolean;
     nextOffset?: number;
+    // Opaque continuation token for keyset pagination, present when the query supports it
+    cursor?: string;
     totalRowsFetched: number;
   };
 }
@@ -129,6 +598,160 @@ export interface QueryResultMessage {
 }
 export type QueryResult = QueryResultSuccess | QueryResultMessage;
 
+// Caller-supplied query parameter, referenced in the query text as @name
+export interface QueryParameter {
+  name: string;
+  // Optional type spec (e.g. int, nvarchar(50)); inferred from the value when omitted
+  type?: string;
+  value?: unknown;
+}
+
+// Pagination options for executeQuery
+export interface QueryOptions {
+  offset?: number;
+  limit?: number;
+  // Continuation token from a previous page's pagination.cursor
+  cursor?: string;
+  // Values bound to @name placeholders in the query text
+  parameters?: QueryParameter[];
+  // Session from openSession to run the query on
+  sessionId?: string;
+}
+
+// Options for openSession
+export interface SessionOptions {
+  // Hold a SNAPSHOT isolation transaction for the session's lifetime, so every call sees the same data
+  snapshot?: boolean;
+}
+
+// Interface for openSession result
+export interface SessionInfo {
+  sessionId: string;
+  database: string;
+  snapshot: boolean;
+  idleTimeoutMs: number;
+  openedAt: string;
+}
+
+// Session state: a dedicated single-connection pool, and the transaction held on it, if any
+interface QuerySession {
+  id: string;
+  database: string;
+  pool: sql.ConnectionPool;
+  transaction: sql.Transaction | null;
+  openedAt: number;
+  idleTimer: NodeJS.Timeout | null;
+  // Calls on a session run one at a time, chained on this promise
+  queue: Promise<unknown>;
+  activeCalls: number;
+}
+
+// Pool kept for a database other than the default one; activeCalls counts the calls using it
+interface DatabasePool {
+  database: string;
+  pool: sql.ConnectionPool | null;
+  // Open in progress, shared by calls arriving meanwhile
+  connecting: Promise<sql.ConnectionPool> | null;
+  // Connections the pool may open, counted against maxConnections
+  connections: number;
+  activeCalls: number;
+  lastUsed: number;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+export type DatabasePoolCloseReason = 'idle' | 'lru' | 'connectionLimit' | 'connectionError' | 'shutdown';
+
+// Database pools and their counters since startup, logged at shutdown
+export interface DatabasePoolStats {
+  pools: Array<{ database: string; connections: number; size: number; borrowed: number; activeCalls: number; idleMs: number }>;
+  maxPools: number;
+  maxConnections: number;
+  // Main pool and database pool maximums plus dedicated connections, as counted against maxConnections
+  reservedConnections: number;
+  dedicatedConnections: number;
+  opened: number;
+  reused: number;
+  healthCheckFailures: number;
+  closed: Record<DatabasePoolCloseReason, number>;
+}
+
+// Options for executeWrite
+export interface WriteOptions {
+  // Values bound to @name placeholders in the statement
+  parameters?: QueryParameter[];
+  // Token from a dry run of the same statement; commits it instead of rolling back
+  confirmationToken?: string;
+}
+
+// Interface for executeWrite results: a rolled-back dry run, or a committed statement
+export interface WriteResultDryRun {
+  dryRun: true;
+  statementType: WriteStatementType;
+  target: string;
+  rowsAffected: number;
+  // Sample of the changed rows of the target table, as they were and as the statement left them
+  before?: Recordset;
+  after?: Recordset;
+  // Why the sample is missing or incomplete
+  sampleNote?: string;
+  confirmationToken: string;
+  expiresAt: string;
+}
+export interface WriteResultCommitted {
+  committed: true;
+  statementType: WriteStatementType;
+  target: string;
+  rowsAffected: number;
+}
+export type WriteResult = WriteResultDryRun | WriteResultCommitted;
+
+// Target columns an execute_write dry run samples, from the catalog
+interface WriteSamplePlan {
+  database: string;
+  table: TableReference;
+  columns: string[];
+  // Empty when the table has no primary key or part of it is hidden by the policy
+  keyColumns: string[];
+  identityColumn?: string;
+}
+
+// Dry run awaiting confirmation, keyed by its token
+interface PendingWrite {
+  fingerprint: string;
+  rowsAffected: number;
+  expiresAt: number;
+}
+
+// Named query parameter; `type` is inferred from the value when omitted
+interface BoundParameter {
+  name: string;
+  type?: sql.ISqlType | sql.ISqlTypeFactoryWithNoParams | sql.ISqlTypeFactoryWithLength | sql.ISqlTypeFactoryWithPrecisionScale | sql.ISqlTypeFactoryWithScale | sql.ISqlTypeFactoryWithTvpType;
+  value: unknown;
+  // OUTPUT parameters are bound with request.output; `value` is then their input value, if any
+  output?: boolean;
+}
+
+// Recordset collected by streamRecordsets, before pagination metadata is derived
+interface StreamedRecordset {
+  columns: string[];
+  rows: any[][];
+  rowsRead: number;
+}
+
+export type ParameterDirection = 'input' | 'output' | 'inout';
+
+// Caller-supplied stored procedure parameter; `type` defaults to the declared catalog type
+export interface StoredProcedureParameter {
+  name: string;
+  type?: string;
+  value?: any;
+  // Defaults to 'input'. 'output' binds an OUTPUT parameter starting as NULL, 'inout' one starting as `value`.
+  direction?: ParameterDirection;
+  // User-defined table type (schema.name) of a table-valued parameter, whose `value` is then an
+  // array of row objects. Defaults to the type the procedure declares.
+  tableType?: string;
+}
+
 // Interface for executeStoredProcedure result
 export interface StoredProcedureResultSuccess {
   recordsets: Recordset[];
@@ -151,12 +774,44 @@ export class DatabaseService {
   private connectionPromise: Promise<sql.ConnectionPool> | null = null;
   private isConnecting: boolean = false;
   private schemaCache: Map<string, { timestamp: number; data: TableSchema[] }> = new Map();
+  // Per-object caches so single tables can be served without loading a whole database
+  private tableSchemaCache: Map<string, { timestamp: number; data: TableSchema }> = new Map();
+  private objectListCache: Map<string, { timestamp: number; data: SchemaObjectSummary[] }> = new Map();
+  private procedureListCache: Map<string, { timestamp: number; data: ProcedureSchema[] }> = new Map();
+  private procedureCache: Map<string, { timestamp: number; data: ResolvedProcedure }> = new Map();
+  private tableTypeCache: Map<string, { timestamp: number; data: TableTypeSchema }> = new Map();
+  // Default schema of the login's user by lowercased database name; fixed for the login, so not expired
+  private readonly defaultSchemaCache: Map<string, string> = new Map();
   private connectionRetries: number = 0;
 
-  private readonly sqlConfig: SqlConfig;
+  // Replaced by applySettings() when the configuration is reloaded
+  private sqlConfig: SqlConfig;
   private readonly logger: Logger;
   // Normalized allowedDatabases (lowercased, trimmed) for case-insensitive comparison
-  private readonly normalizedAllowedDatabases: string[];
+  private normalizedAllowedDatabases: string[];
+  private policy: AccessPolicy;
+  // Parsed row-filter predicates by predicate text
+  private readonly filterPredicateCache: Map<string, SqlAst> = new Map();
+  // execute_write dry runs that can still be committed
+  private readonly pendingWrites: Map<string, PendingWrite> = new Map();
+  // Open sessions by id; openingSessions counts those still connecting, for the session limit
+  private readonly sessions: Map<string, QuerySession> = new Map();
+  private openingSessions: number = 0;
+  // Token reader for azure-active-directory-access-token authentication
+  private readonly accessTokenSource: AccessTokenSource | null;
+  // Pools for databases other than sqlConfig.database by lowercased name, least recently used first
+  private readonly databasePools: Map<string, DatabasePool> = new Map();
+  // Pools dropped after a connection error, closed once their running calls finish
+  private readonly retiringDatabasePools: Set<DatabasePool> = new Set();
+  private readonly databasePoolByInstance: WeakMap<sql.ConnectionPool, DatabasePool> = new WeakMap();
+  // Connections of sessions, which never share a pool
+  private dedicatedConnections: number = 0;
+  private readonly databasePoolCounters = {
+    opened: 0,
+    reused: 0,
+    healthCheckFailures: 0,
+    closed: { idle: 0, lru: 0, connectionLimit: 0, connectionError: 0, shutdown: 0 } as Record<DatabasePoolCloseReason, number>
+  };
 
   // Map of string type names to mssql.ISqlTypeFactory objects
   private readonly sqlDataTypeMap: Map<string, sql.ISqlTypeFactoryWithNoParams | sql.ISqlTypeFactoryWithLength | sql.ISqlTypeFactoryWithPrecisionScale | sql.ISqlTypeFactoryWithScale | sql.ISqlTypeFactoryWithTvpType> = new Map([
@@ -205,9 +860,31 @@ export class DatabaseService {
     this.normalizedAllowedDatabases = (sqlConfig.allowedDatabases || [])
       .map(db => db.trim().toLowerCase())
       .filter(Boolean);
+    this.policy = sqlConfig.policyFile ? loadAccessPolicy(sqlConfig.policyFile) : {};
+    if (sqlConfig.policyFile) {
+      this.logger.info({ policyFile: sqlConfig.policyFile }, 'DatabaseService: Access policy loaded.');
+    }
+    const authentication = sqlConfig.authentication;
+    this.accessTokenSource = authentication?.type === 'azure-active-directory-access-token'
+      ? new AccessTokenSource(authentication, logger)
+      : null;
     this.logger.info('DatabaseService instantiated.');
   }
 
+  /**
+   * Switch to reloaded settings and access policy. Only settings read per operation take effect
+   * (allowed databases, row and cost limits, session limits, cache TTL); the connection pool and
+   * open sessions are kept, so connection settings in `sqlConfig` should be the current ones.
+   */
+  public applySettings(sqlConfig: SqlConfig, policy: AccessPolicy): void {
+    this.sqlConfig = sqlConfig;
+    this.normalizedAllowedDatabases = (sqlConfig.allowedDatabases || [])
+      .map(db => db.trim().toLowerCase())
+      .filter(Boolean);
+    this.policy = policy;
+    this.logger.info({ allowedDatabases: sqlConfig.allowedDatabases, policyFile: sqlConfig.policyFile || undefined }, 'DatabaseService: Settings reloaded.');
+  }
+
   /**
    * Check if the target database is allowed by the whitelist (case-insensitive, trimmed).
    * Throws PERMISSION_ERROR if not allowed.
@@ -249,50 +926,378 @@ export class DatabaseService {
   }
 
   /**
-   * Open a dedicated (non-pooled) connection for a specific database.
-   * Used when the target database differs from the pool's default to avoid
-   * the race condition of issuing USE on a shared pool connection.
+   * Open a dedicated connection for a specific database, for sessions, whose temp tables and
+   * settings must not leak into a shared pool. Counted against maxConnections until
+   * closed with `closeDedicatedConnection`.
    */
-  private async openDedicatedConnection(targetDatabase: string): Promise<sql.ConnectionPool> {
+  private async openDedicatedConnection(
+    targetDatabase: string,
+    // Dedicated connections use a minimal pool — one connection, short-lived
+    pool: SqlConfig['pool'] = { min: 0, max: 1, idleTimeoutMillis: 5000 }
+  ): Promise<sql.ConnectionPool> {
     this.assertValidDatabaseName(targetDatabase);
     const sanitized = this.sanitizeDbName(targetDatabase);
-    this.logger.info({ database: sanitized }, 'DatabaseService: Opening dedicated connection for cross-database operation.');
+    this.reserveConnections(1, 1, `dedicated connection to '${sanitized}'`);
+    this.logger.info({ database: sanitized }, 'DatabaseService: Opening dedicated connection.');
 
-    const dedicatedPool = new sql.ConnectionPool({
-      ...this.sqlConfig,
+    const dedicatedPool = new sql.ConnectionPool(this.connectionConfig({
       database: sanitized,
-      // Dedicated connections use a minimal pool — one connection, short-lived
-      pool: { min: 0, max: 1, idleTimeoutMillis: 5000 },
-    });
+      pool,
+    }));
 
-    await dedicatedPool.connect();
+    this.dedicatedConnections++;
+    try {
+      await dedicatedPool.connect();
+    } catch (err) {
+      this.dedicatedConnections--;
+      throw err;
+    }
     return dedicatedPool;
   }
 
+  private async closeDedicatedConnection(pool: sql.ConnectionPool): Promise<void> {
+    this.dedicatedConnections--;
+    await pool.close();
+  }
+
+  /**
+   * mssql configuration for a new pool, with `authentication` translated to tedious's options.
+   * mssql rebuilds the tedious authentication from this for every connection it opens, so the
+   * access-token credential is asked for a token at each login and picks up refreshed tokens.
+   */
+  private connectionConfig(overrides: Partial<sql.config> = {}): sql.config {
+    const { authentication, ...settings } = this.sqlConfig;
+    const userName = this.sqlConfig.user;
+    const password = this.sqlConfig.password ?? '';
+    let tediousAuthentication: Record<string, unknown> | undefined;
+    switch (authentication?.type) {
+      case 'ntlm':
+        tediousAuthentication = { type: 'ntlm', options: { userName, password, domain: authentication.domain } };
+        break;
+      case 'azure-active-directory-password':
+        tediousAuthentication = { type: authentication.type, options: { userName, password, clientId: authentication.clientId, tenantId: authentication.tenantId } };
+        break;
+      case 'azure-active-directory-service-principal-secret':
+        tediousAuthentication = { type: authentication.type, options: { clientId: authentication.clientId, clientSecret: authentication.clientSecret, tenantId: authentication.tenantId } };
+        break;
+      case 'azure-active-directory-access-token': {
+        const source = this.accessTokenSource!;
+        tediousAuthentication = { type: 'token-credential', options: { credential: { getToken: () => source.getToken() } } };
+        break;
+      }
+    }
+    return {
+      ...settings,
+      ...(tediousAuthentication ? { authentication: tediousAuthentication } : {}),
+      ...overrides,
+    } as sql.config;
+  }
+
   /**
-   * Get a connection pool for the given target database.
-   * Returns the shared pool if targeting the default database, or opens a
-   * dedicated connection for cross-database operations.
-   * Callers MUST call `maybeCloseDedicated` on the returned pool when done.
+   * Get a connection pool for the given target database: the shared pool for the default
+   * database, or the database's pool from `acquireDatabasePool`.
+   * Callers MUST call `releaseConnection` on the returned pool when done.
    */
   private async getConnectionForDatabase(targetDatabase: string): Promise<sql.ConnectionPool> {
     if (targetDatabase === this.sqlConfig.database) {
       return this.getPool();
     }
-    return this.openDedicatedConnection(targetDatabase);
+    return this.acquireDatabasePool(targetDatabase);
+  }
+
+  /**
+   * Hand back a pool from `getConnectionForDatabase` (no-op for the shared pool). Database pools
+   * stay open for the next call until they have been unused for `databasePools.idleTimeoutMs`.
+   */
+  private async releaseConnection(pool: sql.ConnectionPool): Promise<void> {
+    const entry = this.databasePoolByInstance.get(pool);
+    if (pool !== this.pool && entry) {
+      await this.releaseDatabasePool(entry);
+    }
+  }
+
+  /**
+   * Stop handing out a pool from `getConnectionForDatabase` whose connection state cannot be
+   * trusted: the shared pool is closed (and reopened on next use), a database pool is closed
+   * once its running calls finish.
+   */
+  private async discardPool(pool: sql.ConnectionPool): Promise<void> {
+    if (pool === this.pool) {
+      await this.closePool();
+      return;
+    }
+    const entry = this.databasePoolByInstance.get(pool);
+    if (entry && this.databasePools.get(entry.database.toLowerCase()) === entry) {
+      this.databasePools.delete(entry.database.toLowerCase());
+      this.retiringDatabasePools.add(entry);
+    }
+  }
+
+  /**
+   * Connections counted against maxConnections: the main pool's maximum, the maximum of every
+   * database pool (retiring ones included) and the dedicated connections.
+   */
+  private reservedConnections(): number {
+    let total = this.sqlConfig.pool?.max ?? DEFAULT_POOL_MAX;
+    for (const entry of [...this.databasePools.values(), ...this.retiringDatabasePools]) {
+      total += entry.connections;
+    }
+    return total + this.dedicatedConnections;
+  }
+
+  /**
+   * Make room under maxConnections for up to `wanted` more connections, closing unused database
+   * pools least recently used first. Returns how many may be opened, at least `minimum`;
+   * throws CONNECTION_ERROR when not even that many fit.
+   */
+  private reserveConnections(wanted: number, minimum: number, purpose: string): number {
+    const limit = this.sqlConfig.maxConnections ?? 0;
+    if (limit <= 0) {
+      return wanted;
+    }
+    for (const entry of this.databasePools.values()) {
+      if (limit - this.reservedConnections() >= wanted) break;
+      if (entry.activeCalls === 0) {
+        this.closeDatabasePool(entry, 'connectionLimit').catch(err => this.logger.error({ err, database: entry.database }, 'DatabaseService: Error closing database pool.'));
+      }
+    }
+    const available = limit - this.reservedConnections();
+    if (available < minimum) {
+      throw new MssqlMcpError(
+        `DatabaseService: The limit of ${limit} connections to the server has been reached, so no ${purpose} can be opened. Retry once running calls or open sessions have finished.`,
+        ErrorType.CONNECTION_ERROR,
+        undefined,
+        { maxConnections: limit, reservedConnections: this.reservedConnections() }
+      );
+    }
+    return Math.min(wanted, available);
+  }
+
+  /**
+   * Pool for a database other than the default one, kept in a least-recently-used cache of at
+   * most `databasePools.max` pools. A pool unused for a while runs a test query before it is
+   * handed out and is reopened if that fails; opening retries with the main pool's backoff.
+   * Callers MUST call `releaseConnection` on the returned pool when done.
+   */
+  private async acquireDatabasePool(targetDatabase: string): Promise<sql.ConnectionPool> {
+    this.assertValidDatabaseName(targetDatabase);
+    const database = this.sanitizeDbName(targetDatabase);
+    const key = database.toLowerCase();
+    let entry = this.databasePools.get(key);
+    if (entry) {
+      // Re-inserting keeps the map in least-recently-used order
+      this.databasePools.delete(key);
+    } else {
+      const connections = this.reserveConnections(
+        this.sqlConfig.databasePools?.connections ?? DEFAULT_DATABASE_POOL_CONNECTIONS,
+        1,
+        `pool for database '${database}'`
+      );
+      entry = { database, pool: null, connecting: null, connections, activeCalls: 0, lastUsed: Date.now(), idleTimer: null };
+    }
+    this.databasePools.set(key, entry);
+    entry.activeCalls++;
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    this.trimDatabasePools();
+
+    try {
+      return await this.connectDatabasePool(entry);
+    } catch (error) {
+      await this.releaseDatabasePool(entry);
+      throw error;
+    }
+  }
+
+  private async connectDatabasePool(entry: DatabasePool): Promise<sql.ConnectionPool> {
+    if (entry.connecting) {
+      return entry.connecting;
+    }
+    if (entry.pool?.connected) {
+      if (entry.activeCalls > 1 || Date.now() - entry.lastUsed < DATABASE_POOL_HEALTH_CHECK_IDLE_MS) {
+        this.databasePoolCounters.reused++;
+        return entry.pool;
+      }
+      try {
+        await entry.pool.request().query('SELECT 1 AS test_connection');
+        this.databasePoolCounters.reused++;
+        return entry.pool;
+      } catch (e) {
+        this.databasePoolCounters.healthCheckFailures++;
+        this.logger.warn({ err: e, database: entry.database }, 'DatabaseService: Database pool failed test, re-initializing.');
+      }
+    }
+    if (entry.pool) {
+      const stalePool = entry.pool;
+      entry.pool = null;
+      stalePool.close().catch(err => this.logger.error({ err, database: entry.database }, 'DatabaseService: Error closing failed database pool.'));
+    }
+    entry.connecting = this.openDatabasePool(entry).finally(() => {
+      entry.connecting = null;
+    });
+    return entry.connecting;
   }
 
   /**
-   * Close a dedicated connection pool (no-op if it's the shared pool).
+   * Connect a database pool, retrying with exponential backoff up to maxRetries attempts like
+   * the main pool. A login the server rejects (wrong credentials, missing database) is not retried.
    */
-  private async maybeCloseDedicated(pool: sql.ConnectionPool): Promise<void> {
-    if (pool !== this.pool) {
+  private async openDatabasePool(entry: DatabasePool): Promise<sql.ConnectionPool> {
+    for (let attempt = 0; ; attempt++) {
+      let poolInstance: sql.ConnectionPool | null = null;
       try {
-        await pool.close();
-      } catch (err) {
-        this.logger.error({ err }, 'DatabaseService: Error closing dedicated connection.');
+        if (this.accessTokenSource) {
+          await this.accessTokenSource.getToken();
+        }
+        const instance = new sql.ConnectionPool(this.connectionConfig({
+          database: entry.database,
+          pool: { min: 0, max: entry.connections, idleTimeoutMillis: this.sqlConfig.pool?.idleTimeoutMillis ?? 30000 },
+        }));
+        poolInstance = instance;
+        instance.on('error', (err: Error) => {
+          this.logger.error({ err, database: entry.database }, 'DatabaseService: Database pool instance error.');
+          if (entry.pool === instance) {
+            entry.pool = null;
+          }
+          instance.close().catch(closeErr => this.logger.error({ err: closeErr, database: entry.database }, 'DatabaseService: Error closing errored database pool.'));
+        });
+        await instance.connect();
+        this.databasePoolByInstance.set(instance, entry);
+        entry.pool = instance;
+        entry.lastUsed = Date.now();
+        this.databasePoolCounters.opened++;
+        this.logger.info({ database: entry.database, connections: entry.connections, pools: this.databasePools.size }, 'DatabaseService: Database pool connected.');
+        return instance;
+      } catch (error: unknown) {
+        poolInstance?.close().catch(closeErr => this.logger.error({ err: closeErr, database: entry.database }, 'DatabaseService: Error closing database pool instance after connect error.'));
+        const mssqlError = MssqlMcpError.fromError(error, ErrorType.CONNECTION_ERROR);
+        const loginRejected = (error as any)?.code === 'ELOGIN';
+        this.logger.error({ err: mssqlError, database: entry.database, attempt: attempt + 1 }, `DatabaseService: Error connecting database pool (Attempt ${attempt + 1}).`);
+        if (loginRejected || attempt + 1 >= this.sqlConfig.maxRetries) {
+          throw new MssqlMcpError(
+            `DatabaseService: Failed to connect to database '${entry.database}' after ${attempt + 1} attempts. Last error: ${mssqlError.message}`,
+            ErrorType.CONNECTION_ERROR,
+            mssqlError.originalError,
+            { database: entry.database, attempts: attempt + 1, ...mssqlError.details }
+          );
+        }
+        const delay = this.retryDelay(attempt);
+        this.logger.info({ delayMs: delay, database: entry.database }, 'DatabaseService: Retrying database pool connection...');
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async releaseDatabasePool(entry: DatabasePool): Promise<void> {
+    entry.activeCalls--;
+    entry.lastUsed = Date.now();
+    if (entry.activeCalls > 0) {
+      return;
+    }
+    if (this.retiringDatabasePools.has(entry) || !entry.pool) {
+      await this.closeDatabasePool(entry, 'connectionError');
+      return;
+    }
+    this.trimDatabasePools();
+    if (this.databasePools.get(entry.database.toLowerCase()) === entry) {
+      this.scheduleDatabasePoolIdleClose(entry);
+    }
+  }
+
+  // Close unused pools, least recently used first, while more than databasePools.max are open
+  private trimDatabasePools(): void {
+    const maxPools = this.sqlConfig.databasePools?.max ?? DEFAULT_DATABASE_POOLS;
+    for (const entry of this.databasePools.values()) {
+      if (this.databasePools.size <= maxPools) break;
+      if (entry.activeCalls === 0) {
+        this.closeDatabasePool(entry, 'lru').catch(err => this.logger.error({ err, database: entry.database }, 'DatabaseService: Error closing database pool.'));
+      }
+    }
+  }
+
+  private scheduleDatabasePoolIdleClose(entry: DatabasePool): void {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+    }
+    const idleTimeoutMs = this.sqlConfig.databasePools?.idleTimeoutMs ?? DEFAULT_DATABASE_POOL_IDLE_TIMEOUT_MS;
+    entry.idleTimer = setTimeout(() => {
+      entry.idleTimer = null;
+      if (entry.activeCalls === 0) {
+        this.closeDatabasePool(entry, 'idle').catch(err => this.logger.error({ err, database: entry.database }, 'DatabaseService: Error closing idle database pool.'));
       }
+    }, idleTimeoutMs);
+    // An idle pool must not keep the process alive
+    entry.idleTimer.unref();
+  }
+
+  private async closeDatabasePool(entry: DatabasePool, reason: DatabasePoolCloseReason): Promise<void> {
+    const key = entry.database.toLowerCase();
+    if (this.databasePools.get(key) === entry) {
+      this.databasePools.delete(key);
+    } else if (!this.retiringDatabasePools.delete(entry)) {
+      return;
     }
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    const pool = entry.pool;
+    entry.pool = null;
+    if (pool) {
+      this.databasePoolCounters.closed[reason]++;
+      await pool.close();
+      this.logger.info({ database: entry.database, reason }, 'DatabaseService: Database pool closed.');
+    }
+  }
+
+  /**
+   * Drop every database pool after a connection error: unused ones are closed now, the others
+   * once their running calls finish. The next call for a database opens a new pool.
+   */
+  private async retireDatabasePools(): Promise<void> {
+    const entries = [...this.databasePools.values()];
+    this.databasePools.clear();
+    await Promise.all(entries.map(async entry => {
+      this.retiringDatabasePools.add(entry);
+      if (entry.activeCalls === 0) {
+        await this.closeDatabasePool(entry, 'connectionError').catch(err => this.logger.error({ err, database: entry.database }, 'DatabaseService: Error closing database pool.'));
+      }
+    }));
+  }
+
+  public getDatabasePoolStats(): DatabasePoolStats {
+    const now = Date.now();
+    return {
+      pools: [...this.databasePools.values()].map(entry => ({
+        database: entry.database,
+        connections: entry.connections,
+        size: entry.pool?.size ?? 0,
+        borrowed: entry.pool?.borrowed ?? 0,
+        activeCalls: entry.activeCalls,
+        idleMs: entry.activeCalls > 0 ? 0 : now - entry.lastUsed
+      })),
+      maxPools: this.sqlConfig.databasePools?.max ?? DEFAULT_DATABASE_POOLS,
+      maxConnections: this.sqlConfig.maxConnections ?? 0,
+      reservedConnections: this.reservedConnections(),
+      dedicatedConnections: this.dedicatedConnections,
+      opened: this.databasePoolCounters.opened,
+      reused: this.databasePoolCounters.reused,
+      healthCheckFailures: this.databasePoolCounters.healthCheckFailures,
+      closed: { ...this.databasePoolCounters.closed }
+    };
+  }
+
+  /**
+   * Close every database pool, logging their stats first. Used at shutdown.
+   */
+  public async closeDatabasePools(): Promise<void> {
+    this.logger.info({ databasePools: this.getDatabasePoolStats() }, 'DatabaseService: Closing database pools.');
+    const entries = [...this.databasePools.values(), ...this.retiringDatabasePools];
+    await Promise.all(entries.map(entry =>
+      this.closeDatabasePool(entry, 'shutdown').catch(err => this.logger.error({ err, database: entry.database }, 'DatabaseService: Error closing database pool.'))
+    ));
   }
 
   /**
@@ -327,6 +1332,57 @@ export class DatabaseService {
     return { recordsets: allRecordsets, totalRecordCount };
   }
 
+  /**
+   * Run a query in mssql stream mode so rows are never buffered beyond the page being returned.
+   * For each recordset the first `skipRows` rows are discarded and at most `maxRows` are kept;
+   * `rowsRead` counts everything seen so callers can detect further rows. When `cancelOnOverflow`
+   * is set the request is cancelled as soon as a recordset produces a row past the kept window.
+   */
+  private streamRecordsets(request: sql.Request, query: string, skipRows: number, maxRows: number, cancelOnOverflow: boolean): Promise<StreamedRecordset[]> {
+    return new Promise((resolve, reject) => {
+      const recordsets: StreamedRecordset[] = [];
+      let current: StreamedRecordset | null = null;
+      let cancelled = false;
+      let failure: unknown = null;
+
+      request.stream = true;
+
+      request.on('recordset', (columns: Record<string, { index: number; name: string }>) => {
+        const colArray = Object.values(columns);
+        colArray.sort((a, b) => a.index - b.index);
+        current = { columns: colArray.map(c => c.name), rows: [], rowsRead: 0 };
+        recordsets.push(current);
+      });
+
+      request.on('row', (row: Record<string, any>) => {
+        if (!current || cancelled) return;
+        current.rowsRead++;
+        if (current.rowsRead <= skipRows) return;
+        if (current.rows.length < maxRows) {
+          if (current.rows.length === 0) current.columns = Object.keys(row);
+          current.rows.push(Object.values(row));
+        } else if (cancelOnOverflow) {
+          cancelled = true;
+          this.logger.debug({ rowsRead: current.rowsRead }, 'DatabaseService: Row limit reached, cancelling streamed request.');
+          request.cancel();
+        }
+      });
+
+      request.on('error', (err: Error & { code?: string }) => {
+        // Cancelling surfaces as an ECANCEL error; that is the expected outcome, not a failure
+        if (cancelled && err.code === 'ECANCEL') return;
+        failure = failure ?? err;
+      });
+
+      request.on('done', () => {
+        if (failure) reject(failure);
+        else resolve(recordsets);
+      });
+
+      request.query(query);
+    });
+  }
+
   /**
    * Shared error handler for operation catch blocks.
    * Classifies the error, attempts pool reconnection on connection errors, and throws MssqlMcpError.
@@ -355,6 +1411,7 @@ export class DatabaseService {
         errorType = ErrorType.CONNECTION_ERROR;
         this.logger.warn({ ...context, originalError: error.message }, `DatabaseService: Connection error during ${operation}. Attempting to re-establish pool.`);
         await this.closePool();
+        await this.retireDatabasePools();
         try {
           await this.getPool();
           this.logger.info(context, `DatabaseService: Pool re-established after connection error during ${operation}.`);
@@ -375,19 +1432,101 @@ export class DatabaseService {
     throw MssqlMcpError.fromError(error, ErrorType.UNKNOWN_ERROR, context);
   }
 
-  private mapStringToSqlType(typeName: string): sql.ISqlTypeFactoryWithNoParams | sql.ISqlTypeFactoryWithLength | sql.ISqlTypeFactoryWithPrecisionScale | sql.ISqlTypeFactoryWithScale | sql.ISqlTypeFactoryWithTvpType {
-    const normalizedTypeName = typeName.toLowerCase().trim();
-    const sqlTypeFactory = this.sqlDataTypeMap.get(normalizedTypeName);
+  /**
+   * Turn a parameter type string such as `varchar(50)`, `nvarchar(max)`, `decimal(18,4)` or
+   * `sysname` into an mssql type. A bare name matching the type the procedure declares keeps
+   * the declared length/precision/scale, so e.g. `decimal` does not round to decimal(18,0).
+   * Throws VALIDATION_ERROR listing the supported forms for malformed specs or unknown names.
+   */
+  private mapStringToSqlType(typeSpec: string, declaredType?: sql.ISqlType): sql.ISqlType | sql.ISqlTypeFactoryWithNoParams | sql.ISqlTypeFactoryWithLength | sql.ISqlTypeFactoryWithPrecisionScale | sql.ISqlTypeFactoryWithScale | sql.ISqlTypeFactoryWithTvpType {
+    const parsed = parseSqlTypeSpec(typeSpec);
+    const sqlTypeFactory = 'error' in parsed ? undefined : this.sqlDataTypeMap.get(parsed.typeName);
+
+    if ('error' in parsed || !sqlTypeFactory) {
+      const reason = 'error' in parsed ? parsed.error : `unknown type '${parsed.typeName}'`;
+      throw new MssqlMcpError(
+        `DatabaseService: Invalid parameter type '${typeSpec}': ${reason}. Supported forms: ${SUPPORTED_TYPE_FORMS.join('; ')}.`,
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { type: typeSpec, supportedForms: SUPPORTED_TYPE_FORMS }
+      );
+    }
 
-    if (!sqlTypeFactory) {
-      this.logger.warn({ typeName, normalizedTypeName }, `DatabaseService: SQL data type '${typeName}' is not explicitly mapped. Defaulting to NVarChar.`);
-      return sql.NVarChar;
+    if (parsed.length !== undefined) {
+      return (sqlTypeFactory as sql.ISqlTypeFactoryWithLength)(parsed.length === 'max' ? sql.MAX : parsed.length);
+    }
+    if (parsed.precision !== undefined) {
+      return (sqlTypeFactory as sql.ISqlTypeFactoryWithPrecisionScale)(parsed.precision, parsed.scale);
+    }
+    if (parsed.scale !== undefined) {
+      return (sqlTypeFactory as sql.ISqlTypeFactoryWithScale)(parsed.scale);
+    }
+    if (declaredType && (declaredType.type as unknown) === sqlTypeFactory) {
+      return declaredType;
     }
     return sqlTypeFactory;
   }
 
-  public async closePool(): Promise<void> {
-    if (this.pool) {
+  /**
+   * mssql type for a procedure parameter as declared in sys.parameters, with its length,
+   * precision or scale. Alias types (e.g. sysname) bind as their underlying system type.
+   * Also used for the columns of user-defined table types.
+   */
+  private catalogSqlType(row: CatalogTypeFacets, objectName: string): sql.ISqlType {
+    const typeName = (row.DATA_TYPE ?? '').toLowerCase();
+    const systemType = (row.SYSTEM_TYPE ?? '').toLowerCase();
+    const maxLength = row.MAX_LENGTH ?? 0;
+
+    // CLR types share a system type id, so the declared name identifies them better
+    const baseType = this.sqlDataTypeMap.has(typeName) ? typeName : systemType === 'sql_variant' ? 'variant' : systemType;
+    if (LENGTH_TYPES.has(baseType)) {
+      const length = maxLength === -1 ? sql.MAX : baseType.startsWith('n') ? maxLength / 2 : maxLength;
+      return (this.sqlDataTypeMap.get(baseType) as sql.ISqlTypeFactoryWithLength)(length);
+    }
+    if (baseType === 'decimal' || baseType === 'numeric') {
+      return (this.sqlDataTypeMap.get(baseType) as sql.ISqlTypeFactoryWithPrecisionScale)(row.NUMERIC_PRECISION ?? undefined, row.NUMERIC_SCALE ?? undefined);
+    }
+    if (SCALE_TYPES.has(baseType)) {
+      return (this.sqlDataTypeMap.get(baseType) as sql.ISqlTypeFactoryWithScale)(row.NUMERIC_SCALE ?? undefined);
+    }
+    const factory = this.sqlDataTypeMap.get(baseType);
+    if (!factory || baseType === 'tvp') {
+      this.logger.warn({ object: objectName, typeName, systemType }, 'DatabaseService: Catalog type has no mssql mapping. Defaulting to NVarChar(max).');
+      return sql.NVarChar(sql.MAX);
+    }
+    return (factory as sql.ISqlTypeFactoryWithNoParams)();
+  }
+
+  /**
+   * Bind parameters to a request, inferring the SQL type from the value when none is declared.
+   */
+  private bindParameters(request: sql.Request, parameters: BoundParameter[]): void {
+    for (const param of parameters) {
+      if (param.output) {
+        request.output(param.name, param.type ?? this.inferSqlType(param.value), param.value);
+      } else {
+        request.input(param.name, param.type ?? this.inferSqlType(param.value), param.value);
+      }
+    }
+  }
+
+  /**
+   * Pick an mssql type for a value whose SQL type is not declared.
+   */
+  private inferSqlType(value: unknown): sql.ISqlType | sql.ISqlTypeFactoryWithNoParams | sql.ISqlTypeFactoryWithLength {
+    if (typeof value === 'boolean') return sql.Bit;
+    if (typeof value === 'bigint') return sql.BigInt;
+    if (typeof value === 'number') {
+      if (!Number.isInteger(value)) return sql.Float;
+      return Math.abs(value) <= 2147483647 ? sql.Int : sql.BigInt;
+    }
+    if (value instanceof Date) return sql.DateTime2;
+    if (Buffer.isBuffer(value)) return sql.VarBinary(sql.MAX);
+    return sql.NVarChar(sql.MAX);
+  }
+
+  public async closePool(): Promise<void> {
+    if (this.pool) {
       try {
         await this.pool.close();
         this.logger.info('DatabaseService: SQL connection pool closed.');
@@ -419,7 +1558,9 @@ export class DatabaseService {
       }
     }
 
-    if (!this.sqlConfig.password) {
+    // Only SQL logins always need a password; the other modes are checked by the server at login
+    const authenticationType = this.sqlConfig.authentication?.type ?? 'default';
+    if (authenticationType === 'default' && !this.sqlConfig.password) {
       this.logger.error('DatabaseService: SQL Server password not provided. Set SQL_PASSWORD environment variable.');
       throw new MssqlMcpError('SQL Server password not provided.', ErrorType.VALIDATION_ERROR, undefined, { missingVariable: 'SQL_PASSWORD' });
     }
@@ -427,13 +1568,18 @@ export class DatabaseService {
     this.connectionPromise = (async () => {
       let poolInstance: sql.ConnectionPool | null = null;
       try {
-        this.logger.info({ server: this.sqlConfig.server, port: this.sqlConfig.port, user: this.sqlConfig.user }, 'DatabaseService: Creating new SQL connection pool.');
+        this.logger.info({ server: this.sqlConfig.server, port: this.sqlConfig.port, user: this.sqlConfig.user, authentication: authenticationType }, 'DatabaseService: Creating new SQL connection pool.');
+
+        // Read the token up front so a missing or expired token is reported as such rather
+        // than as a failed login
+        if (this.accessTokenSource) {
+          await this.accessTokenSource.getToken();
+        }
 
-        poolInstance = new sql.ConnectionPool({
-          ...this.sqlConfig,
+        poolInstance = new sql.ConnectionPool(this.connectionConfig({
           requestTimeout: timeoutMs || this.sqlConfig.requestTimeout || 30000,
           connectionTimeout: timeoutMs || this.sqlConfig.connectionTimeout || 30000,
-        });
+        }));
 
         poolInstance.on('error', async (err: Error) => {
           this.logger.error({ err }, 'DatabaseService: SQL pool instance error.');
@@ -503,6 +1649,14 @@ export class DatabaseService {
     return this.connectionPromise;
   }
 
+  // Exponential backoff with jitter before connection attempt `attempt + 1`, capped at maxRetryDelay
+  private retryDelay(attempt: number): number {
+    return Math.min(
+      this.sqlConfig.initialRetryDelay * Math.pow(2, attempt) + Math.random() * 1000,
+      this.sqlConfig.maxRetryDelay
+    );
+  }
+
   public async getPool(currentAttempt = 0): Promise<sql.ConnectionPool> {
     if (this.pool && this.pool.connected) {
       return this.pool;
@@ -555,10 +1709,7 @@ export class DatabaseService {
 
       // maxRetries means total attempts (not retries-after-first)
       if (currentAttempt + 1 < this.sqlConfig.maxRetries) {
-        const delay = Math.min(
-          this.sqlConfig.initialRetryDelay * Math.pow(2, currentAttempt) + Math.random() * 1000,
-          this.sqlConfig.maxRetryDelay
-        );
+        const delay = this.retryDelay(currentAttempt);
         this.logger.info({ delayMs: delay }, '[DatabaseService] getPool: Retrying connection...');
         await new Promise(resolve => setTimeout(resolve, delay));
         return this.getPool(currentAttempt + 1);
@@ -574,7 +1725,106 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Run the catalog batch and assemble TableSchema objects, either for the whole database
+   * or, when `object` is given, for that single table or view.
+   */
+  private async fetchSchemaMetadata(dbPool: sql.ConnectionPool, object?: { schema: string; name: string }): Promise<TableSchema[]> {
+    const schemaResult = await dbPool.request()
+      .input('schemaName', sql.NVarChar(128), object?.schema ?? null)
+      .input('objectName', sql.NVarChar(128), object?.name ?? null)
+      .query(SCHEMA_METADATA_QUERY);
+    const [columnRows, foreignKeyRows, indexRows] = schemaResult.recordsets as unknown as [
+      SchemaColumnRow[],
+      SchemaForeignKeyRow[],
+      SchemaIndexRow[]
+    ];
+
+    const tablesMap: Map<string, TableSchema> = new Map();
+
+    for (const row of columnRows) {
+      const tableName = `${row.SCHEMA_NAME}.${row.OBJECT_NAME}`;
+      if (!tablesMap.has(tableName)) {
+        tablesMap.set(tableName, {
+          schema: row.SCHEMA_NAME,
+          name: row.OBJECT_NAME,
+          fullName: tableName,
+          objectType: row.OBJECT_TYPE.trim() === 'V' ? 'view' : 'table',
+          ...(row.OBJECT_DESCRIPTION ? { description: row.OBJECT_DESCRIPTION } : {}),
+          columns: [],
+          foreignKeys: [],
+          indexes: []
+        });
+      }
+
+      tablesMap.get(tableName)!.columns.push({
+        name: row.COLUMN_NAME,
+        type: formatColumnType(row.DATA_TYPE, row.SYSTEM_TYPE, row.MAX_LENGTH, row.NUMERIC_PRECISION, row.NUMERIC_SCALE),
+        nullable: row.IS_NULLABLE,
+        primary: row.IS_PRIMARY_KEY === 1,
+        ...(row.IS_IDENTITY ? { identity: true } : {}),
+        ...(row.COMPUTED_DEFINITION ? { computed: row.COMPUTED_DEFINITION } : {}),
+        ...(row.DEFAULT_DEFINITION ? { default: row.DEFAULT_DEFINITION } : {}),
+        ...(row.COLUMN_DESCRIPTION ? { description: row.COLUMN_DESCRIPTION } : {})
+      });
+    }
+
+    // Rows arrive ordered by constraint, one per column pair
+    for (const row of foreignKeyRows) {
+      const table = tablesMap.get(`${row.SCHEMA_NAME}.${row.TABLE_NAME}`);
+      if (!table) continue;
+      let fk = table.foreignKeys.find(f => f.name === row.FK_NAME);
+      if (!fk) {
+        fk = {
+          name: row.FK_NAME,
+          columns: [],
+          referencedTable: `${row.REFERENCED_SCHEMA}.${row.REFERENCED_TABLE}`,
+          referencedColumns: [],
+          onDelete: row.ON_DELETE,
+          onUpdate: row.ON_UPDATE
+        };
+        table.foreignKeys.push(fk);
+      }
+      fk.columns.push(row.COLUMN_NAME);
+      fk.referencedColumns.push(row.REFERENCED_COLUMN);
+    }
+
+    // Rows arrive ordered by index, key columns before included columns
+    for (const row of indexRows) {
+      const table = tablesMap.get(`${row.SCHEMA_NAME}.${row.OBJECT_NAME}`);
+      if (!table) continue;
+      let index = table.indexes.find(i => i.name === row.INDEX_NAME);
+      if (!index) {
+        index = {
+          name: row.INDEX_NAME,
+          columns: [],
+          includedColumns: [],
+          unique: row.IS_UNIQUE,
+          clustered: row.INDEX_TYPE.startsWith('CLUSTERED'),
+          primaryKey: row.IS_PRIMARY_KEY
+        };
+        table.indexes.push(index);
+      }
+      if (row.IS_INCLUDED) {
+        index.includedColumns.push(row.COLUMN_NAME);
+      } else {
+        index.columns.push(row.IS_DESCENDING ? `${row.COLUMN_NAME} DESC` : row.COLUMN_NAME);
+      }
+    }
+
+    return Array.from(tablesMap.values());
+  }
+
+  /**
+   * Tables and views of a database as exposed to callers: objects and columns denied by the
+   * access policy are left out.
+   */
   public async getSchema(dbIdentifier: string): Promise<TableSchema[]> {
+    const tables = await this.loadSchema(dbIdentifier);
+    return tables.map(table => this.applyTablePolicy(dbIdentifier, table)).filter((t): t is TableSchema => t !== null);
+  }
+
+  private async loadSchema(dbIdentifier: string): Promise<TableSchema[]> {
     this.assertDatabaseAllowed(dbIdentifier, 'schema retrieval');
 
     this.logger.info({ database: dbIdentifier }, `DatabaseService: Fetching schema for database: ${dbIdentifier}`);
@@ -590,69 +1840,7 @@ export class DatabaseService {
     const dbPool = await this.getConnectionForDatabase(dbIdentifier);
 
     try {
-      const schemaResult = await dbPool.request().query<SchemaQueryRow>(`
-        SELECT 
-            t.TABLE_SCHEMA, 
-            t.TABLE_NAME,
-            c.COLUMN_NAME, 
-            c.DATA_TYPE,
-            c.CHARACTER_MAXIMUM_LENGTH,
-            c.NUMERIC_PRECISION,
-            c.NUMERIC_SCALE,
-            c.IS_NULLABLE,
-            CASE WHEN pk.COLUMN_NAME IS NOT NULL THEN 1 ELSE 0 END AS IS_PRIMARY_KEY,
-            c.ORDINAL_POSITION
-        FROM 
-            INFORMATION_SCHEMA.TABLES t
-        INNER JOIN 
-            INFORMATION_SCHEMA.COLUMNS c ON t.TABLE_SCHEMA = c.TABLE_SCHEMA AND t.TABLE_NAME = c.TABLE_NAME
-        LEFT JOIN (
-            SELECT 
-                ku.TABLE_SCHEMA,
-                ku.TABLE_NAME,
-                ku.COLUMN_NAME
-            FROM 
-                INFORMATION_SCHEMA.TABLE_CONSTRAINTS AS tc
-            INNER JOIN 
-                INFORMATION_SCHEMA.KEY_COLUMN_USAGE AS ku 
-                ON tc.CONSTRAINT_TYPE = 'PRIMARY KEY' 
-                AND tc.CONSTRAINT_NAME = ku.CONSTRAINT_NAME
-        ) pk ON c.TABLE_SCHEMA = pk.TABLE_SCHEMA AND c.TABLE_NAME = pk.TABLE_NAME AND c.COLUMN_NAME = pk.COLUMN_NAME
-        WHERE 
-            t.TABLE_TYPE = 'BASE TABLE'
-        ORDER BY 
-            t.TABLE_SCHEMA, t.TABLE_NAME, c.ORDINAL_POSITION;
-      `);
-
-      const tablesMap: Map<string, TableSchema> = new Map();
-
-      for (const row of schemaResult.recordset) {
-        const tableName = `${row.TABLE_SCHEMA}.${row.TABLE_NAME}`;
-        if (!tablesMap.has(tableName)) {
-          tablesMap.set(tableName, {
-            schema: row.TABLE_SCHEMA,
-            name: row.TABLE_NAME,
-            fullName: tableName,
-            columns: []
-          });
-        }
-
-        let columnType = row.DATA_TYPE;
-        if (row.CHARACTER_MAXIMUM_LENGTH) {
-          columnType += `(${row.CHARACTER_MAXIMUM_LENGTH})`;
-        } else if (row.NUMERIC_PRECISION !== null && row.NUMERIC_SCALE !== null) {
-          columnType += `(${row.NUMERIC_PRECISION},${row.NUMERIC_SCALE})`;
-        }
-
-        tablesMap.get(tableName)!.columns.push({
-          name: row.COLUMN_NAME,
-          type: columnType,
-          nullable: row.IS_NULLABLE === 'YES',
-          primary: row.IS_PRIMARY_KEY === 1
-        });
-      }
-
-      const tables: TableSchema[] = Array.from(tablesMap.values());
+      const tables = await this.fetchSchemaMetadata(dbPool);
 
       this.schemaCache.set(dbIdentifier, { timestamp: Date.now(), data: tables });
       this.logger.info({ database: dbIdentifier }, 'DatabaseService: Schema cached.');
@@ -661,167 +1849,1963 @@ export class DatabaseService {
     } catch (error: unknown) {
       return await this.handleOperationError(error, 'getSchema', ErrorType.SCHEMA_ERROR, { database: dbIdentifier });
     } finally {
-      await this.maybeCloseDedicated(dbPool);
+      await this.releaseConnection(dbPool);
     }
   }
 
-  public async executeQuery(query: string, rawDatabaseArg?: string, offset?: number, limit?: number): Promise<QueryResult> {
-    const targetDatabase = rawDatabaseArg || this.sqlConfig.database;
-    this.assertDatabaseAllowed(targetDatabase, 'query execution');
+  private isCacheFresh(entry: { timestamp: number } | undefined): boolean {
+    return !!entry && Date.now() - entry.timestamp < this.sqlConfig.schemaCacheTTL;
+  }
 
-    this.logger.info({ database: targetDatabase }, 'DatabaseService: Executing query.');
+  /**
+   * Names of all user tables and views in a database, without column detail.
+   * Cheap enough for databases with thousands of tables; cached with the schema TTL.
+   * Objects denied by the access policy are left out.
+   */
+  public async listSchemaObjects(dbIdentifier: string): Promise<SchemaObjectSummary[]> {
+    const objects = await this.loadSchemaObjects(dbIdentifier);
+    return hasTableRules(this.policy)
+      ? objects.filter(o => !findDeniedTableRule(this.policy, dbIdentifier, o.schema, o.name))
+      : objects;
+  }
 
-    if (!query || query.trim() === '') {
-      throw new MssqlMcpError('DatabaseService: Query cannot be empty', ErrorType.VALIDATION_ERROR, undefined, { query });
+  private async loadSchemaObjects(dbIdentifier: string): Promise<SchemaObjectSummary[]> {
+    this.assertDatabaseAllowed(dbIdentifier, 'schema retrieval');
+
+    const cacheKey = dbIdentifier.toLowerCase();
+    const cached = this.objectListCache.get(cacheKey);
+    if (this.isCacheFresh(cached)) {
+      return cached!.data;
     }
 
-    // Parse and validate — SELECT only
-    const parser = new nodeParser.Parser();
-    let ast;
+    // A fresh full-schema cache already knows every object
+    const cachedSchema = this.schemaCache.get(dbIdentifier);
+    if (this.isCacheFresh(cachedSchema)) {
+      return cachedSchema!.data.map(({ schema, name, objectType }) => ({ schema, name, objectType }));
+    }
+
+    this.logger.info({ database: dbIdentifier }, 'DatabaseService: Fetching object list.');
+    const dbPool = await this.getConnectionForDatabase(dbIdentifier);
+
     try {
-      ast = parser.astify(query, { database: 'transactsql' });
-    } catch (parseError: unknown) {
-      this.logger.error({ err: parseError }, 'DatabaseService: SQL parsing error');
-      const originalError = parseError instanceof Error ? parseError : undefined;
-      const message = parseError instanceof Error ? parseError.message : String(parseError);
-      throw new MssqlMcpError(`DatabaseService: Invalid SQL syntax: ${message}`, ErrorType.SQL_PARSER_ERROR, originalError, { query: query.substring(0, 200) });
+      const result = await dbPool.request().query<{ SCHEMA_NAME: string; OBJECT_NAME: string; OBJECT_TYPE: string }>(`
+        SELECT s.name AS SCHEMA_NAME, o.name AS OBJECT_NAME, o.type AS OBJECT_TYPE
+        FROM sys.objects o
+        INNER JOIN sys.schemas s ON s.schema_id = o.schema_id
+        WHERE o.type IN ('U', 'V') AND o.is_ms_shipped = 0
+        ORDER BY s.name, o.name;
+      `);
+      const objects: SchemaObjectSummary[] = result.recordset.map(row => ({
+        schema: row.SCHEMA_NAME,
+        name: row.OBJECT_NAME,
+        objectType: row.OBJECT_TYPE.trim() === 'V' ? 'view' : 'table'
+      }));
+      this.objectListCache.set(cacheKey, { timestamp: Date.now(), data: objects });
+      return objects;
+    } catch (error: unknown) {
+      return await this.handleOperationError(error, 'listSchemaObjects', ErrorType.SCHEMA_ERROR, { database: dbIdentifier });
+    } finally {
+      await this.releaseConnection(dbPool);
     }
+  }
 
-    const queries = Array.isArray(ast) ? ast : [ast];
-    for (const q of queries) {
-      if (q.type !== 'select') {
-        throw new MssqlMcpError(
-          'DatabaseService: Only SELECT queries are allowed. DELETE, INSERT, UPDATE, and other DML/DDL operations are not permitted.',
-          ErrorType.VALIDATION_ERROR,
-          undefined,
-          { queryType: q.type }
-        );
-      }
+  /**
+   * Full detail (columns, keys, indexes) for a single table or view, fetched and cached on its own
+   * so large databases never need to be loaded whole. Names are matched case-insensitively.
+   * Tables denied by the access policy are reported as not found; denied columns are left out.
+   */
+  public async getTableSchema(dbIdentifier: string, schemaName: string, tableName: string): Promise<TableSchema> {
+    const table = this.applyTablePolicy(dbIdentifier, await this.loadTableSchema(dbIdentifier, schemaName, tableName));
+    if (!table) {
+      throw this.tableNotFoundError(dbIdentifier, schemaName, tableName);
     }
+    return table;
+  }
 
-    // Defense-in-depth: word-boundary checks for dangerous keywords
-    // Uses \b to avoid false positives on column names like 'crisp_products' or 'exec_date'
-    const dangerousPatterns = /\b(exec\s|execute\s|reconfigure|waitfor\s+delay)\b/i;
-    if (dangerousPatterns.test(query)) {
-      throw new MssqlMcpError(
-        'DatabaseService: Potentially unsafe query detected. Use the execute_stored_procedure tool for stored procedures.',
-        ErrorType.VALIDATION_ERROR,
-        undefined,
-        { query: query.substring(0, 200) }
-      );
+  private tableNotFoundError(dbIdentifier: string, schemaName: string, tableName: string): MssqlMcpError {
+    return new MssqlMcpError(
+      `DatabaseService: Table or view '${schemaName}.${tableName}' was not found in database '${dbIdentifier}'.`,
+      ErrorType.SCHEMA_ERROR,
+      undefined,
+      { database: dbIdentifier, schema: schemaName, table: tableName }
+    );
+  }
+
+  /**
+   * Remove what the access policy hides from a table's metadata: the whole table (null) when it
+   * is denied, otherwise denied columns plus the indexes and foreign keys that would name them.
+   */
+  private applyTablePolicy(dbIdentifier: string, table: TableSchema): TableSchema | null {
+    if (!hasTableRules(this.policy)) {
+      return table;
+    }
+    if (findDeniedTableRule(this.policy, dbIdentifier, table.schema, table.name)) {
+      return null;
     }
 
-    const dbPool = await this.getConnectionForDatabase(targetDatabase);
+    const denied = new Set(table.columns
+      .filter(c => findDeniedColumnRule(this.policy, dbIdentifier, table.schema, table.name, c.name))
+      .map(c => c.name));
+    const isReferenceHidden = (fk: ForeignKeySchema) => {
+      const [refSchema, refTable] = fk.referencedTable.split('.');
+      return !!findDeniedTableRule(this.policy, dbIdentifier, refSchema, refTable) ||
+        fk.referencedColumns.some(c => findDeniedColumnRule(this.policy, dbIdentifier, refSchema, refTable, c));
+    };
+
+    return {
+      ...table,
+      columns: table.columns.filter(c => !denied.has(c.name)),
+      foreignKeys: table.foreignKeys.filter(fk => !fk.columns.some(c => denied.has(c)) && !isReferenceHidden(fk)),
+      indexes: table.indexes.filter(ix => ![...ix.columns, ...ix.includedColumns].some(c => denied.has(c)))
+    };
+  }
 
-    try {
-      const result = await dbPool.request().query(query);
+  private async loadTableSchema(dbIdentifier: string, schemaName: string, tableName: string): Promise<TableSchema> {
+    this.assertDatabaseAllowed(dbIdentifier, 'schema retrieval');
 
-      const { recordsets, totalRecordCount } = this.parseRecordsets(result.recordsets);
+    const cacheKey = `${dbIdentifier}|${schemaName}.${tableName}`.toLowerCase();
+    const cached = this.tableSchemaCache.get(cacheKey);
+    if (this.isCacheFresh(cached)) {
+      return cached!.data;
+    }
 
-      // Apply pagination: offset skips rows, limit caps how many are returned
-      const effectiveLimit = limit ?? (this.sqlConfig.maxRows ?? DEFAULT_MAX_ROWS);
-      const effectiveOffset = offset ?? 0;
+    const matches = (t: { schema: string; name: string }) =>
+      t.schema.toLowerCase() === schemaName.toLowerCase() && t.name.toLowerCase() === tableName.toLowerCase();
 
-      const paginatedRecordsets = recordsets.map(rs => {
-        const sliceStart = Math.min(effectiveOffset, rs.rows.length);
-        const sliceEnd = Math.min(sliceStart + effectiveLimit, rs.rows.length);
-        const slicedRows = rs.rows.slice(sliceStart, sliceEnd);
-        return { ...rs, rows: slicedRows, recordCount: slicedRows.length };
-      });
+    const cachedSchema = this.schemaCache.get(dbIdentifier);
+    let table = this.isCacheFresh(cachedSchema) ? cachedSchema!.data.find(matches) : undefined;
+
+    if (!table) {
+      this.logger.info({ database: dbIdentifier, schema: schemaName, table: tableName }, 'DatabaseService: Fetching table schema.');
+      const dbPool = await this.getConnectionForDatabase(dbIdentifier);
+      try {
+        [table] = await this.fetchSchemaMetadata(dbPool, { schema: schemaName, name: tableName });
+      } catch (error: unknown) {
+        return await this.handleOperationError(error, 'getTableSchema', ErrorType.SCHEMA_ERROR, { database: dbIdentifier, schema: schemaName, table: tableName });
+      } finally {
+        await this.releaseConnection(dbPool);
+      }
+    }
 
-      const returnedRows = paginatedRecordsets.reduce((sum, rs) => sum + rs.recordCount, 0);
-      const hasMore = totalRecordCount > effectiveOffset + effectiveLimit;
+    if (!table) {
+      throw this.tableNotFoundError(dbIdentifier, schemaName, tableName);
+    }
 
-      if (paginatedRecordsets.length > 0) {
-        return {
-          recordsets: paginatedRecordsets,
-          totalRecordCount,
-          pagination: {
-            offset: effectiveOffset,
-            limit: effectiveLimit,
-            hasMore,
-            ...(hasMore ? { nextOffset: effectiveOffset + effectiveLimit } : {}),
-            totalRowsFetched: returnedRows
-          }
-        };
-      } else {
-        return {
-          recordsets: [{ columns: [], rows: [], recordCount: 0 }],
-          totalRecordCount: 0
+    this.tableSchemaCache.set(cacheKey, { timestamp: Date.now(), data: table });
+    return table;
+  }
+
+  /**
+   * Run the procedure catalog query and group rows into ProcedureSchema objects, either for
+   * every user procedure or, when `procedure` is given, for that one (including parameter defaults).
+   * Procedures on the system deny-list are never returned.
+   */
+  private async fetchProcedureMetadata(dbPool: sql.ConnectionPool, procedure?: { schema: string; name: string }): Promise<ResolvedProcedure[]> {
+    const result = await dbPool.request()
+      .input('schemaName', sql.NVarChar(128), procedure?.schema ?? null)
+      .input('procedureName', sql.NVarChar(128), procedure?.name ?? null)
+      .query<ProcedureParameterRow>(PROCEDURE_METADATA_QUERY);
+
+    const procedures: Map<string, ResolvedProcedure> = new Map();
+    const definitionDefaults: Map<string, Map<string, string> | null> = new Map();
+
+    for (const row of result.recordset) {
+      if (DENIED_SYSTEM_PROCEDURES.has(row.PROCEDURE_NAME.toLowerCase())) continue;
+
+      const fullName = `${row.SCHEMA_NAME}.${row.PROCEDURE_NAME}`;
+      let resolved = procedures.get(fullName);
+      if (!resolved) {
+        resolved = {
+          schema: {
+            schema: row.SCHEMA_NAME,
+            name: row.PROCEDURE_NAME,
+            fullName,
+            ...(row.DESCRIPTION ? { description: row.DESCRIPTION } : {}),
+            parameters: []
+          },
+          parameterTypes: new Map()
         };
+        procedures.set(fullName, resolved);
+        if (procedure) {
+          definitionDefaults.set(fullName, row.DEFINITION ? parseProcedureParameterDefaults(row.DEFINITION) : null);
+        }
+      }
+
+      if (!row.PARAMETER_NAME) continue;
+
+      // CLR procedures record defaults in the catalog; T-SQL ones only in their definition text
+      const parsedDefaults = definitionDefaults.get(fullName);
+      const defaultText = row.HAS_DEFAULT_VALUE
+        ? String(row.DEFAULT_VALUE ?? 'NULL')
+        : parsedDefaults?.get(row.PARAMETER_NAME.toLowerCase());
+      const defaultsKnown = !!row.HAS_DEFAULT_VALUE || parsedDefaults !== undefined && parsedDefaults !== null;
+
+      resolved.schema.parameters.push({
+        name: row.PARAMETER_NAME,
+        type: row.IS_TABLE_TYPE
+          ? `${row.TYPE_SCHEMA}.${row.DATA_TYPE}`
+          : formatColumnType(row.DATA_TYPE ?? '', row.SYSTEM_TYPE ?? '', row.MAX_LENGTH ?? 0, row.NUMERIC_PRECISION ?? 0, row.NUMERIC_SCALE ?? 0),
+        direction: row.IS_OUTPUT ? 'output' : 'input',
+        ...(defaultsKnown ? { hasDefault: defaultText !== undefined } : {}),
+        ...(defaultText !== undefined ? { default: defaultText } : {}),
+        ...(row.IS_TABLE_TYPE ? { tableType: true } : {})
+      });
+      if (!row.IS_TABLE_TYPE) {
+        resolved.parameterTypes.set(row.PARAMETER_NAME.toLowerCase(), this.catalogSqlType(row, row.PARAMETER_NAME));
       }
+    }
+
+    return Array.from(procedures.values());
+  }
+
+  /**
+   * All user stored procedures in a database with their parameter signatures.
+   * Parameter defaults are only resolved per procedure (see getProcedureSchema).
+   */
+  public async listProcedures(dbIdentifier: string): Promise<ProcedureSchema[]> {
+    this.assertDatabaseAllowed(dbIdentifier, 'procedure discovery');
+
+    const cacheKey = dbIdentifier.toLowerCase();
+    const cached = this.procedureListCache.get(cacheKey);
+    if (this.isCacheFresh(cached)) {
+      return cached!.data;
+    }
+
+    this.logger.info({ database: dbIdentifier }, 'DatabaseService: Fetching procedure list.');
+    const dbPool = await this.getConnectionForDatabase(dbIdentifier);
+
+    try {
+      const procedures = (await this.fetchProcedureMetadata(dbPool)).map(p => p.schema);
+      this.procedureListCache.set(cacheKey, { timestamp: Date.now(), data: procedures });
+      return procedures;
     } catch (error: unknown) {
-      return await this.handleOperationError(error, 'executeQuery', ErrorType.QUERY_ERROR, { query: query.length > 100 ? query.substring(0, 100) + '...' : query });
+      return await this.handleOperationError(error, 'listProcedures', ErrorType.SCHEMA_ERROR, { database: dbIdentifier });
     } finally {
-      await this.maybeCloseDedicated(dbPool);
+      await this.releaseConnection(dbPool);
     }
   }
 
-  public async executeStoredProcedure(procedure: string, parameters: Array<{ name: string; type: string; value?: any }> = [], rawDatabaseArg?: string): Promise<StoredProcedureResult> {
-    const targetDatabase = rawDatabaseArg || this.sqlConfig.database;
-    this.assertDatabaseAllowed(targetDatabase, 'stored procedure execution');
+  /**
+   * Signature of a single stored procedure, including parameter defaults and its description.
+   */
+  public async getProcedureSchema(dbIdentifier: string, schemaName: string, procedureName: string): Promise<ProcedureSchema> {
+    return (await this.resolveProcedure(dbIdentifier, schemaName, procedureName)).schema;
+  }
 
-    this.logger.info({ database: targetDatabase, procedure, parametersCount: parameters.length }, `DatabaseService: Executing stored procedure ${procedure}`);
+  /**
+   * Cached signature and parameter types of one procedure. Throws SCHEMA_ERROR (without an
+   * original error) when the procedure does not exist or is not visible to the login.
+   */
+  private async resolveProcedure(dbIdentifier: string, schemaName: string, procedureName: string): Promise<ResolvedProcedure> {
+    this.assertDatabaseAllowed(dbIdentifier, 'procedure discovery');
 
-    if (!procedure || procedure.trim() === '') {
-      throw new MssqlMcpError('DatabaseService: Procedure name cannot be empty', ErrorType.VALIDATION_ERROR, undefined, { procedure });
+    const cacheKey = `${dbIdentifier}|${schemaName}.${procedureName}`.toLowerCase();
+    const cached = this.procedureCache.get(cacheKey);
+    if (this.isCacheFresh(cached)) {
+      return cached!.data;
     }
 
-    if (!/^([a-zA-Z0-9_]+\.)?[a-zA-Z0-9_]+$/.test(procedure)) {
-      throw new MssqlMcpError('DatabaseService: Invalid procedure name format. Use [schema].[procedure_name]', ErrorType.VALIDATION_ERROR, undefined, { procedure });
+    this.logger.info({ database: dbIdentifier, schema: schemaName, procedure: procedureName }, 'DatabaseService: Fetching procedure signature.');
+    const dbPool = await this.getConnectionForDatabase(dbIdentifier);
+
+    let procedure: ResolvedProcedure | undefined;
+    try {
+      [procedure] = await this.fetchProcedureMetadata(dbPool, { schema: schemaName, name: procedureName });
+    } catch (error: unknown) {
+      return await this.handleOperationError(error, 'getProcedureSchema', ErrorType.SCHEMA_ERROR, { database: dbIdentifier, schema: schemaName, procedure: procedureName });
+    } finally {
+      await this.releaseConnection(dbPool);
     }
 
-    // Check against deny-list of dangerous system procedures
-    const normalizedProcName = procedure.toLowerCase().split('.').pop()!;
-    if (DENIED_SYSTEM_PROCEDURES.has(normalizedProcName)) {
+    if (!procedure) {
       throw new MssqlMcpError(
-        `DatabaseService: Execution of system procedure '${procedure}' is not allowed.`,
-        ErrorType.PERMISSION_ERROR,
+        `DatabaseService: Stored procedure '${schemaName}.${procedureName}' was not found in database '${dbIdentifier}'.`,
+        ErrorType.SCHEMA_ERROR,
         undefined,
-        { procedure }
+        { database: dbIdentifier, schema: schemaName, procedure: procedureName }
       );
     }
 
-    const dbPool = await this.getConnectionForDatabase(targetDatabase);
+    this.procedureCache.set(cacheKey, { timestamp: Date.now(), data: procedure });
+    return procedure;
+  }
+
+  /**
+   * Default schema of the login's user in a database, read with SCHEMA_NAME() once per database.
+   * SQL Server looks for unqualified object names there before dbo.
+   */
+  private async getDefaultSchema(database: string): Promise<string> {
+    const cacheKey = database.toLowerCase();
+    const cached = this.defaultSchemaCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
 
+    const dbPool = await this.getConnectionForDatabase(database);
     try {
-      const request = dbPool.request();
+      const result = await dbPool.request().query<{ DEFAULT_SCHEMA: string | null }>('SELECT SCHEMA_NAME() AS DEFAULT_SCHEMA;');
+      const schema = result.recordset[0]?.DEFAULT_SCHEMA || 'dbo';
+      this.defaultSchemaCache.set(cacheKey, schema);
+      return schema;
+    } catch (error: unknown) {
+      return await this.handleOperationError(error, 'getDefaultSchema', ErrorType.SCHEMA_ERROR, { database });
+    } finally {
+      await this.releaseConnection(dbPool);
+    }
+  }
 
-      for (const param of parameters) {
-        if (!param.name || !param.type) {
-          throw new MssqlMcpError('DatabaseService: Each parameter must have a name and type', ErrorType.VALIDATION_ERROR, undefined, { parameter: param });
-        }
+  /**
+   * Schema an unqualified table, view or procedure name resolves to, the way the server
+   * resolves it: the default schema when it has an object of that name, otherwise dbo.
+   */
+  private async resolveUnqualifiedSchema(database: string, name: string, kind: 'object' | 'procedure'): Promise<string> {
+    const defaultSchema = await this.getDefaultSchema(database);
+    if (defaultSchema.toLowerCase() === 'dbo') {
+      return 'dbo';
+    }
+    const objects: { schema: string; name: string }[] = kind === 'procedure'
+      ? await this.listProcedures(database)
+      : await this.loadSchemaObjects(database);
+    const inDefaultSchema = objects.some(o => o.schema.toLowerCase() === defaultSchema.toLowerCase() && o.name.toLowerCase() === name.toLowerCase());
+    return inDefaultSchema ? defaultSchema : 'dbo';
+  }
 
-        const paramName = param.name.startsWith('@') ? param.name : `@${param.name}`;
-        const sqlTypeFactory = this.mapStringToSqlType(param.type);
-        request.input(paramName.replace('@', ''), sqlTypeFactory, param.value);
-      }
+  /**
+   * Look up the procedure an EXEC name refers to. An unqualified name resolves like on the
+   * server: the default schema, then dbo. Returns null when it is not in the catalog
+   * (e.g. system procedures, or no VIEW DEFINITION permission).
+   */
+  private async findProcedureForExecution(database: string, procedure: string): Promise<ResolvedProcedure | null> {
+    const parts = procedure.split('.');
+    const procedureName = parts.pop()!;
+    const schemaName = parts.pop() ?? await this.resolveUnqualifiedSchema(database, procedureName, 'procedure');
+    try {
+      return await this.resolveProcedure(database, schemaName, procedureName);
+    } catch (err) {
+      if (err instanceof MssqlMcpError && err.errorType === ErrorType.SCHEMA_ERROR && !err.originalError) return null;
+      throw err;
+    }
+  }
 
-      const result = await request.execute(procedure);
+  /**
+   * Primary-key column names of a table, taken from the per-table schema cache.
+   * A missing schema name resolves to the default schema, then dbo.
+   * Returns an empty array when the table is unknown or has no primary key.
+   */
+  private async getPrimaryKeyColumns(database: string, schemaName: string | undefined, tableName: string): Promise<string[]> {
+    const table = await this.findTableSchema(database, schemaName, tableName);
+    if (!table) return [];
+    const primaryKey = table.columns.filter(c => c.primary).map(c => c.name);
+    // Key values end up in ORDER BY and cursors, so a key with a hidden column is treated as no key
+    if (primaryKey.some(c => findDeniedColumnRule(this.policy, database, table.schema, table.name, c))) return [];
+    return primaryKey;
+  }
 
-      const { recordsets, totalRecordCount } = this.parseRecordsets(result.recordsets);
+  /**
+   * Unfiltered metadata of a table or view named as in a query: an unqualified name resolves like
+   * on the server, to the default schema and then dbo. Returns null when there is no such object.
+   */
+  private async findTableSchema(database: string, schemaName: string | undefined, tableName: string): Promise<TableSchema | null> {
+    const resolvedSchema = schemaName ?? await this.resolveUnqualifiedSchema(database, tableName, 'object');
+    try {
+      return await this.loadTableSchema(database, resolvedSchema, tableName);
+    } catch (err) {
+      if (err instanceof MssqlMcpError && err.errorType === ErrorType.SCHEMA_ERROR && !err.originalError) return null;
+      throw err;
+    }
+  }
 
-      if (recordsets.length > 0 && totalRecordCount > 0) {
-        return {
-          recordsets,
-          totalRecordCount,
-          outputParameters: result.output,
-          returnValue: result.returnValue,
-          rowsAffected: result.rowsAffected
-        };
-      } else {
-        return {
-          message: 'Stored procedure executed successfully, but returned no records',
-          outputParameters: result.output,
-          returnValue: result.returnValue,
-          rowsAffected: result.rowsAffected,
-          recordCount: 0
-        };
+  /**
+   * Primary-key columns of a single-table SELECT, used to give unordered queries a stable
+   * order and to make keyset (cursor) pagination unique.
+   * Lookup failures are logged and treated as "no key" so pagination falls back to ordinals.
+   */
+  private async getPagingKeyColumns(select: SqlAst, targetDatabase: string): Promise<string[] | undefined> {
+    const table = getSingleTableReference(select);
+    if (!table || (table.database && table.database.toLowerCase() !== targetDatabase.toLowerCase())) {
+      return undefined;
+    }
+    try {
+      return await this.getPrimaryKeyColumns(targetDatabase, table.schema, table.table);
+    } catch (err) {
+      this.logger.warn({ err, table }, 'DatabaseService: Could not resolve primary key for pagination ordering.');
+      return undefined;
+    }
+  }
+
+  /**
+   * mssql types of the NOT NULL columns of a single-table SELECT's table, by lowercased name,
+   * taken from the per-table schema cache. Keyset pagination only uses these columns as keys, and
+   * binds cursor values with the column's own type. Columns whose declared type has no mssql
+   * mapping (e.g. alias types) are left out; lookup failures are logged and give an empty map.
+   */
+  private async getKeysetColumnTypes(select: SqlAst, targetDatabase: string): Promise<Map<string, NonNullable<BoundParameter['type']>>> {
+    const types = new Map<string, NonNullable<BoundParameter['type']>>();
+    const table = getSingleTableReference(select);
+    if (!table || (table.database && table.database.toLowerCase() !== targetDatabase.toLowerCase())) {
+      return types;
+    }
+    try {
+      const schema = await this.findTableSchema(targetDatabase, table.schema, table.table);
+      for (const column of schema?.columns ?? []) {
+        if (column.nullable) continue;
+        try {
+          types.set(column.name.toLowerCase(), this.mapStringToSqlType(column.type));
+        } catch {
+          this.logger.debug({ table, column: column.name, type: column.type }, 'DatabaseService: Column type has no mssql mapping; not used as a keyset key.');
+        }
       }
-    } catch (error: unknown) {
-      return await this.handleOperationError(error, 'executeStoredProcedure', ErrorType.STORED_PROCEDURE_ERROR, { procedure });
-    } finally {
-      await this.maybeCloseDedicated(dbPool);
+    } catch (err) {
+      this.logger.warn({ err, table }, 'DatabaseService: Could not read column types for keyset pagination.');
+    }
+    return types;
+  }
+
+  /**
+   * Decode a continuation token and check it was issued for this query and database.
+   * Throws VALIDATION_ERROR for malformed or mismatched cursors.
+   */
+  private decodeCursorForQuery(cursor: string, fingerprint: string, offset: number, statementCount: number): KeysetCursor {
+    const decoded = decodeKeysetCursor(cursor);
+    if (!decoded) {
+      throw new MssqlMcpError('DatabaseService: Invalid pagination cursor.', ErrorType.VALIDATION_ERROR, undefined, { cursor: cursor.substring(0, 100) });
+    }
+    if (decoded.fingerprint !== fingerprint) {
+      throw new MssqlMcpError(
+        'DatabaseService: The pagination cursor was issued for a different query or database. Re-run the original query text to continue paging.',
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { cursor: cursor.substring(0, 100) }
+      );
+    }
+    if (offset !== 0 || statementCount !== 1) {
+      throw new MssqlMcpError(
+        'DatabaseService: A cursor cannot be combined with offset or used with multi-statement batches.',
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { offset, statementCount }
+      );
+    }
+    return decoded;
+  }
+
+  private readOnlyViolationError(query: string, violation: ReadOnlyViolation): MssqlMcpError {
+    this.logger.warn({ construct: violation.construct }, 'DatabaseService: Query rejected by read-only validation.');
+    return new MssqlMcpError(
+      `DatabaseService: Only read-only SELECT queries are allowed: ${violation.reason}.`,
+      ErrorType.VALIDATION_ERROR,
+      undefined,
+      { construct: violation.construct, query: query.substring(0, 200) }
+    );
+  }
+
+  private assertNoDangerousKeywords(query: string): void {
+    // Defense-in-depth: word-boundary checks for dangerous keywords
+    // Uses \b to avoid false positives on column names like 'crisp_products' or 'exec_date'
+    const dangerousPatterns = /\b(exec\s|execute\s|reconfigure|waitfor\s+delay)\b/i;
+    if (dangerousPatterns.test(query)) {
+      throw new MssqlMcpError(
+        'DatabaseService: Potentially unsafe query detected. Use the execute_stored_procedure tool for stored procedures.',
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { query: query.substring(0, 200) }
+      );
+    }
+  }
+
+  /**
+   * Parse a query and enforce the read-only rules shared by executeQuery and explainQuery:
+   * every statement must be a SELECT, no construct inside it may write or reach a linked server,
+   * and no dangerous keywords may appear. Returns the parsed statements, or null for a query
+   * the parser rejected but the token-based validator accepted (with `allowUnparsedQueries`).
+   * `allowTempTableInto` accepts SELECT ... INTO #temp, for queries running in a session.
+   */
+  private parseSelectQuery(query: string, allowTempTableInto = false): SqlAst[] | null {
+    if (!query || query.trim() === '') {
+      throw new MssqlMcpError('DatabaseService: Query cannot be empty', ErrorType.VALIDATION_ERROR, undefined, { query });
+    }
+
+    const textViolation = findReadOnlyViolationInText(query);
+    if (textViolation) {
+      throw this.readOnlyViolationError(query, textViolation);
+    }
+
+    // Parse and validate — SELECT only
+    const parser = new nodeParser.Parser();
+    let ast;
+    try {
+      ast = parser.astify(query, { database: 'transactsql' });
+    } catch (parseError: unknown) {
+      const originalError = parseError instanceof Error ? parseError : undefined;
+      const message = parseError instanceof Error ? parseError.message : String(parseError);
+      if (this.sqlConfig.allowUnparsedQueries) {
+        const violation = validateUnparsedQuery(query);
+        if (violation) {
+          throw this.readOnlyViolationError(query, violation);
+        }
+        this.assertNoDangerousKeywords(query);
+        this.logger.info({ parseError: message }, 'DatabaseService: Query accepted by the token-based validator after the SQL parser rejected it.');
+        return null;
+      }
+      this.logger.error({ err: parseError }, 'DatabaseService: SQL parsing error');
+      throw new MssqlMcpError(`DatabaseService: Invalid SQL syntax: ${message}`, ErrorType.SQL_PARSER_ERROR, originalError, { query: query.substring(0, 200) });
+    }
+
+    const queries = (Array.isArray(ast) ? ast : [ast]) as SqlAst[];
+    for (const q of queries) {
+      if (q.type !== 'select') {
+        throw new MssqlMcpError(
+          'DatabaseService: Only SELECT queries are allowed. DELETE, INSERT, UPDATE, and other DML/DDL operations are not permitted.',
+          ErrorType.VALIDATION_ERROR,
+          undefined,
+          { queryType: q.type }
+        );
+      }
+    }
+
+    const violation = findReadOnlyViolation(queries, { allowTempTableInto });
+    if (violation) {
+      throw this.readOnlyViolationError(query, violation);
+    }
+
+    this.assertNoDangerousKeywords(query);
+    return queries;
+  }
+
+  /**
+   * Every table and view a parsed query references, from the parser's table list (aliases
+   * already resolved), with unqualified names in the target database and the schema the server
+   * resolves them to. Unqualified names in `cteNames` are CTEs, not tables, and are left out.
+   */
+  private async listReferencedTables(targetDatabase: string, query: string, cteNames: Set<string>): Promise<Array<{ database: string; schema: string; table: string }>> {
+    const { tableList } = new nodeParser.Parser().parse(query, { database: 'transactsql' });
+    const tables: Array<{ database: string; schema: string; table: string }> = [];
+    // tableList entries look like select::<db.schema | schema | null>::<table>
+    for (const entry of tableList) {
+      const [, qualifier, table] = entry.split('::');
+      const parts = qualifier && qualifier !== 'null' ? qualifier.split('.') : [];
+      if (parts.length === 0 && cteNames.has(table.toLowerCase())) continue;
+      const database = parts.length >= 2 ? parts[parts.length - 2] : targetDatabase;
+      tables.push({
+        database,
+        schema: parts.length >= 1 ? parts[parts.length - 1] : await this.resolveUnqualifiedSchema(database, table, 'object'),
+        table
+      });
+    }
+    return tables;
+  }
+
+  /**
+   * Enforce the table and column rules of the access policy on a parsed query, using the
+   * parser's table and column lists (aliases already resolved to table names). CTE names are
+   * not tables. Unqualified columns and `*` are resolved against the cached table metadata, only
+   * for tables some column rule could apply to; a `*` covers the base tables in its own SELECT's
+   * FROM clause (derived tables and CTEs are checked through their inner SELECTs).
+   * Throws PERMISSION_ERROR naming the rule, or when the query could not be parsed (`statements` null).
+   */
+  private async assertQueryAllowedByPolicy(targetDatabase: string, query: string, statements: SqlAst[] | null): Promise<void> {
+    if (!hasTableRules(this.policy)) {
+      return;
+    }
+    if (statements === null) {
+      throw new MssqlMcpError(
+        'DatabaseService: Table and column access rules cannot be checked on a query the SQL parser cannot read. Rewrite it using syntax the parser supports.',
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { rule: 'tables' }
+      );
+    }
+
+    const { columnList } = new nodeParser.Parser().parse(query, { database: 'transactsql' });
+    const cteNames = new Set<string>();
+    const selects: SqlAst[] = [];
+    const collect = (node: unknown): void => {
+      if (Array.isArray(node)) {
+        node.forEach(collect);
+      } else if (node && typeof node === 'object') {
+        const ast = node as SqlAst;
+        for (const cte of (Array.isArray(ast.with) ? ast.with : [])) {
+          if (typeof cte?.name?.value === 'string') cteNames.add(cte.name.value.toLowerCase());
+        }
+        if (ast.type === 'select') selects.push(ast);
+        Object.values(node).forEach(collect);
+      }
+    };
+    collect(statements);
+
+    const deny = (message: string, rule: string, details: Record<string, unknown>): never => {
+      this.logger.warn({ database: targetDatabase, rule, ...details }, 'DatabaseService: Query blocked by access policy.');
+      throw new MssqlMcpError(`DatabaseService: ${message} (policy rule ${rule}).`, ErrorType.PERMISSION_ERROR, undefined, { rule, ...details });
+    };
+
+    const tables = await this.listReferencedTables(targetDatabase, query, cteNames);
+    for (const ref of tables) {
+      const rule = findDeniedTableRule(this.policy, ref.database, ref.schema, ref.table);
+      if (rule) deny(`Access to '${ref.schema}.${ref.table}' is not allowed`, rule, { table: `${ref.schema}.${ref.table}` });
+    }
+
+    // Column names per table, or null when the metadata cannot be read
+    const columnCache = new Map<string, string[] | null>();
+    const columnsOf = async (ref: { database: string; schema: string; table: string }): Promise<string[] | null> => {
+      const key = `${ref.database}|${ref.schema}.${ref.table}`.toLowerCase();
+      if (!columnCache.has(key)) {
+        try {
+          columnCache.set(key, (await this.loadTableSchema(ref.database, ref.schema, ref.table)).columns.map(c => c.name));
+        } catch (err) {
+          this.logger.debug({ err, table: ref }, 'DatabaseService: Could not load columns for access policy check.');
+          columnCache.set(key, null);
+        }
+      }
+      return columnCache.get(key)!;
+    };
+
+    // columnList entries look like select::<table | null>::<column | (.*)>; stars are handled below
+    for (const entry of columnList) {
+      const [, tableName, column] = entry.split('::');
+      if (column === '(.*)') continue;
+      const qualified = !!tableName && tableName !== 'null';
+      const candidates = qualified ? tables.filter(t => t.table.toLowerCase() === tableName.toLowerCase()) : tables;
+
+      for (const ref of candidates) {
+        if (!hasColumnRulesFor(this.policy, ref.database, ref.schema, ref.table)) continue;
+        const known = await columnsOf(ref);
+        // An unqualified name only refers to this table if the table has such a column
+        if (!qualified && known && !known.some(c => c.toLowerCase() === column.toLowerCase())) continue;
+        const rule = findDeniedColumnRule(this.policy, ref.database, ref.schema, ref.table, column);
+        if (rule) deny(`Access to column '${ref.schema}.${ref.table}.${column}' is not allowed`, rule, { table: `${ref.schema}.${ref.table}`, column });
+      }
+    }
+
+    for (const select of selects) {
+      const stars = (Array.isArray(select.columns) ? select.columns : [])
+        .filter((col: SqlAst) => col?.expr?.type === 'column_ref' && col.expr.column === '*')
+        .map((col: SqlAst) => (typeof col.expr.table === 'string' ? col.expr.table.toLowerCase() : null));
+      if (!Array.isArray(select.columns) && select.columns) stars.push(null);
+      if (stars.length === 0) continue;
+
+      for (const fromItem of Array.isArray(select.from) ? select.from : []) {
+        const table = resolveTableReference(fromItem);
+        if (!table || (!table.schema && cteNames.has(table.table.toLowerCase()))) continue;
+        if (!stars.some((qualifier: string | null) => qualifier === null || qualifier === table.exposedName.toLowerCase())) continue;
+
+        const database = table.database ?? targetDatabase;
+        const ref = { database, schema: table.schema ?? await this.resolveUnqualifiedSchema(database, table.table, 'object'), table: table.table };
+        if (!hasColumnRulesFor(this.policy, ref.database, ref.schema, ref.table)) continue;
+        const fullName = `${ref.schema}.${ref.table}`;
+        const known = await columnsOf(ref);
+        if (!known) {
+          deny(`SELECT * on '${fullName}' cannot be checked against column restrictions because its columns could not be read; list the columns explicitly`, 'tables.denyColumns', { table: fullName });
+        }
+        for (const name of known!) {
+          const rule = findDeniedColumnRule(this.policy, ref.database, ref.schema, ref.table, name);
+          if (rule) deny(`SELECT * on '${fullName}' would expose restricted column '${name}'; list the allowed columns explicitly`, rule, { table: fullName, column: name });
+        }
+      }
+    }
+  }
+
+  /**
+   * Inject the row-filter policy into parsed statements in place: every reference to a filtered
+   * table or view, in joins, subqueries and CTEs alike, becomes a derived table applying all of its
+   * mandatory predicates. Returns the filter parameters to bind, or null when no filter applies.
+   * Throws PERMISSION_ERROR when a filtered table appears somewhere the rewrite does not reach,
+   * or when the query could not be parsed (`statements` null) and so cannot be rewritten at all.
+   */
+  private async applyRowFilterPolicy(targetDatabase: string, query: string, statements: SqlAst[] | null): Promise<BoundParameter[] | null> {
+    if (!hasRowFilters(this.policy)) {
+      return null;
+    }
+    if (statements === null) {
+      throw new MssqlMcpError(
+        'DatabaseService: Row filters cannot be applied to a query the SQL parser cannot read. Rewrite it using syntax the parser supports.',
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { rule: 'rowFilters' }
+      );
+    }
+
+    const declared = Object.entries(this.policy.rowFilters?.parameters ?? {});
+    const parameters = new Map<string, BoundParameter>();
+    const filtered = new Set<string>();
+    const rules = new Set<string>();
+
+    // Filter variables are bound under reserved names, which caller parameters cannot use
+    const bindParameter = (name: string): string => {
+      const [declaredName, param] = declared.find(([d]) => d.toLowerCase() === name.toLowerCase())!;
+      const bindName = `__filter_${declaredName}`;
+      if (!parameters.has(bindName)) {
+        parameters.set(bindName, {
+          name: bindName,
+          type: param.type ? this.mapStringToSqlType(param.type) : this.inferSqlType(param.value),
+          value: param.value
+        });
+      }
+      return bindName;
+    };
+
+    // The rewrite calls filterFor synchronously, so unqualified names are resolved to a schema first
+    const unqualifiedSchemas = new Map<string, string>();
+    for (const table of statements.flatMap(collectTableReferences)) {
+      const database = table.database ?? targetDatabase;
+      const key = `${database}|${table.table}`.toLowerCase();
+      if (!table.schema && !unqualifiedSchemas.has(key)) {
+        unqualifiedSchemas.set(key, await this.resolveUnqualifiedSchema(database, table.table, 'object'));
+      }
+    }
+
+    const filterFor = (table: TableReference): SqlAst | null => {
+      const database = table.database ?? targetDatabase;
+      const schema = table.schema ?? unqualifiedSchemas.get(`${database}|${table.table}`.toLowerCase()) ?? 'dbo';
+      const matches = findRowFilters(this.policy, database, schema, table.table);
+      if (matches.length === 0) {
+        return null;
+      }
+      filtered.add(`${database}|${schema}.${table.table}`.toLowerCase());
+      return matches
+        .map((match): SqlAst => {
+          rules.add(match.rule);
+          if (!this.filterPredicateCache.has(match.predicate)) {
+            this.filterPredicateCache.set(match.predicate, parseFilterPredicate(match.predicate));
+          }
+          return { ...renamePredicateParameters(this.filterPredicateCache.get(match.predicate)!, bindParameter), parentheses: true };
+        })
+        .reduce((left, right) => ({ type: 'binary_expr', operator: 'AND', left, right }));
+    };
+
+    const rewritten = statements.flatMap(statement => applyRowFilters(statement, filterFor));
+
+    // The parser's own table list also covers references outside the FROM clauses rewritten above
+    const cteNames = new Set<string>(statements.flatMap(statement => (Array.isArray(statement.with) ? statement.with : []))
+      .map((cte: SqlAst) => String(cte?.name?.value ?? '').toLowerCase()));
+    for (const { database, schema, table } of await this.listReferencedTables(targetDatabase, query, cteNames)) {
+      const matches = findRowFilters(this.policy, database, schema, table);
+      if (matches.length > 0 && !filtered.has(`${database}|${schema}.${table}`.toLowerCase())) {
+        this.logger.warn({ database: targetDatabase, table: `${schema}.${table}` }, 'DatabaseService: Query rejected; row filter could not be applied.');
+        throw new MssqlMcpError(
+          `DatabaseService: '${schema}.${table}' is subject to a mandatory row filter, but this query references it in a way the filter cannot be applied to (policy rule ${matches[0].rule}).`,
+          ErrorType.PERMISSION_ERROR,
+          undefined,
+          { table: `${schema}.${table}`, rule: matches[0].rule }
+        );
+      }
+    }
+
+    if (rewritten.length === 0) {
+      return null;
+    }
+    this.logger.debug({ database: targetDatabase, rules: [...rules], references: rewritten.length }, 'DatabaseService: Applied row filters.');
+    return [...parameters.values()];
+  }
+
+  /**
+   * Validate caller-supplied query parameters and resolve their types.
+   * Names may be given with or without `@`; names starting with `__` are reserved for the
+   * parameters the server binds itself (e.g. cursor values).
+   */
+  private resolveQueryParameters(parameters: QueryParameter[]): BoundParameter[] {
+    const seen = new Set<string>();
+    return parameters.map(param => {
+      const name = (param.name || '').replace(/^@/, '');
+      if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name) || name.startsWith('__')) {
+        throw new MssqlMcpError(
+          `DatabaseService: Invalid query parameter name '${param.name}'. Use letters, digits and underscores, not starting with '__'.`,
+          ErrorType.VALIDATION_ERROR,
+          undefined,
+          { parameter: param.name }
+        );
+      }
+      if (seen.has(name.toLowerCase())) {
+        throw new MssqlMcpError(`DatabaseService: Query parameter '@${name}' is supplied more than once`, ErrorType.VALIDATION_ERROR, undefined, { parameter: param.name });
+      }
+      seen.add(name.toLowerCase());
+
+      const value = param.value ?? null;
+      if (typeof value === 'object' && value !== null && !(value instanceof Date) && !Buffer.isBuffer(value)) {
+        throw new MssqlMcpError(`DatabaseService: Query parameter '@${name}' must be a scalar value`, ErrorType.VALIDATION_ERROR, undefined, { parameter: param.name });
+      }
+      return { name, type: param.type ? this.mapStringToSqlType(param.type) : this.inferSqlType(value), value };
+    });
+  }
+
+  public async executeQuery(query: string, rawDatabaseArg?: string, options: QueryOptions = {}): Promise<QueryResult> {
+    const { offset, limit, cursor } = options;
+    const session = options.sessionId !== undefined ? this.getSession(options.sessionId, rawDatabaseArg) : null;
+    const targetDatabase = session?.database ?? (rawDatabaseArg || this.sqlConfig.database);
+    this.assertDatabaseAllowed(targetDatabase, 'query execution');
+
+    this.logger.info({ database: targetDatabase, sessionId: session?.id }, 'DatabaseService: Executing query.');
+
+    const queries = this.parseSelectQuery(query, !!session);
+    if (queries === null && hasMaskingRules(this.policy)) {
+      // Masking traces result columns to the table columns they read, which needs the parsed query
+      throw new MssqlMcpError(
+        'DatabaseService: Masking rules cannot be applied to a query the SQL parser cannot read. Rewrite it using syntax the parser supports.',
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { rule: 'masking' }
+      );
+    }
+    const createsTempTable = !!queries?.some(statement => statement.into?.expr);
+    if (createsTempTable && hasMaskingRules(this.policy)) {
+      // Masking follows the source table, and values copied into a temp table would lose it
+      throw new MssqlMcpError(
+        'DatabaseService: SELECT ... INTO a temp table is not allowed while masking rules are configured, since masked columns would be copied unmasked.',
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { rule: 'masking' }
+      );
+    }
+    if (hasMaskingRules(this.policy) && queries?.some(statement => statement.for)) {
+      // FOR JSON/XML returns the whole result as one generated column, so no column rule applies to it
+      throw new MssqlMcpError(
+        'DatabaseService: FOR JSON and FOR XML queries are not allowed while masking rules are configured, since their single result column cannot be masked per column. Return the columns and build the document client-side.',
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { rule: 'masking' }
+      );
+    }
+    await this.assertQueryAllowedByPolicy(targetDatabase, query, queries);
+    const queryParams = this.resolveQueryParameters(options.parameters ?? []);
+
+    // A caller-supplied limit can narrow the page but never exceed the configured row cap
+    const maxRows = this.sqlConfig.maxRows ?? DEFAULT_MAX_ROWS;
+    const effectiveLimit = Math.min(limit ?? maxRows, maxRows);
+    const effectiveOffset = offset ?? 0;
+
+    // Cursors are tied to the parameter values too, since they change which rows the query selects
+    const fingerprint = createHash('sha256')
+      .update(`${targetDatabase.toLowerCase()}\n${query.trim()}\n${JSON.stringify(queryParams.map(p => [p.name.toLowerCase(), p.value]))}`)
+      .digest('hex')
+      .substring(0, 16);
+    const resumeFrom = cursor !== undefined ? this.decodeCursorForQuery(cursor, fingerprint, effectiveOffset, queries?.length ?? 0) : undefined;
+
+    // Where each statement's values come from, read before the pagination rewrite adds key columns
+    const maskingContexts: MaskingContext[] | null = hasMaskingRules(this.policy)
+      ? (queries ?? []).map(statement => ({
+          database: targetDatabase,
+          tables: collectTableReferences(statement),
+          columnSources: resolveColumnSources(statement)
+        }))
+      : null;
+    // Masking rules name schemas, so unqualified tables get the schema the server resolves them to
+    for (const context of maskingContexts ?? []) {
+      const references = [...(context.tables ?? []), ...[...context.columnSources!.values()].flat().flatMap(source => (source.table ? [source.table] : []))];
+      for (const table of references) {
+        table.schema ??= await this.resolveUnqualifiedSchema(table.database ?? targetDatabase, table.table, 'object');
+      }
+    }
+
+    // Push the page window into SQL Server for single-statement queries. One extra row is
+    // fetched so hasMore can be reported without counting the full result set.
+    let executableQuery = query;
+    let skipRows = effectiveOffset;
+    let keysetKeys: KeysetKey[] | null = null;
+    const cursorParams: BoundParameter[] = [];
+    if (queries?.length === 1) {
+      const select = queries[0];
+      const keyColumns = await this.getPagingKeyColumns(select, targetDatabase);
+      const keyColumnTypes = keyColumns?.length ? await this.getKeysetColumnTypes(select, targetDatabase) : new Map();
+
+      // Queries with a unique, resumable order also get keyset (cursor) pagination
+      keysetKeys = resolveKeysetKeys(select, keyColumns, new Set(keyColumnTypes.keys()));
+      if (resumeFrom) {
+        if (!keysetKeys || keysetKeys.map(k => k.column.toLowerCase()).join(',') !== resumeFrom.keys.map(k => k.toLowerCase()).join(',')) {
+          throw new MssqlMcpError(
+            'DatabaseService: The cursor cannot be applied to this query. Cursor pagination requires a single-table SELECT on a table with a primary key, ordered only by its NOT NULL columns.',
+            ErrorType.VALIDATION_ERROR,
+            undefined,
+            { cursorKeys: resumeFrom.keys }
+          );
+        }
+        // Bound with the key column's catalog type, so the comparison matches the column exactly
+        resumeFrom.values.forEach((value, i) => cursorParams.push({ name: `__cursor${i}`, type: keyColumnTypes.get(keysetKeys![i].column.toLowerCase()), value }));
+      }
+      if (keysetKeys) {
+        applyKeysetPagination(select, keysetKeys, resumeFrom ? cursorParams.map(p => `@${p.name}`) : undefined);
+      }
+
+      const serverSkipRows = applyServerPagination(select, resumeFrom ? 0 : effectiveOffset, effectiveLimit + 1, keyColumns);
+      if (serverSkipRows !== null) {
+        executableQuery = toSql(select);
+        skipRows = serverSkipRows;
+        this.logger.debug({ query: executableQuery }, 'DatabaseService: Rewrote query for server-side pagination.');
+      }
+    }
+
+    // Row filters go in last, so paging and keyset predicates apply to the filtered rows
+    const filterParams = await this.applyRowFilterPolicy(targetDatabase, query, queries);
+    if (filterParams && queries) {
+      executableQuery = toSql(queries.length === 1 ? queries[0] : queries);
+    }
+
+    const dbPool = session ? session.pool : await this.getConnectionForDatabase(targetDatabase);
+
+    try {
+      const boundParams = [...queryParams, ...cursorParams, ...(filterParams ?? [])];
+      const streamed = await this.runInSession(session, async () => {
+        if (this.isCostGuardEnabled()) {
+          await this.assertWithinCostLimits(targetDatabase, executableQuery, boundParams, session);
+        }
+
+        // Single statements are cancelled as soon as the look-ahead row arrives; multi-statement
+        // batches keep reading so later recordsets are still produced, but drop surplus rows.
+        const stream = (request: sql.Request): Promise<StreamedRecordset[]> => {
+          this.bindParameters(request, boundParams);
+          return this.streamRecordsets(request, executableQuery, skipRows, effectiveLimit, queries?.length === 1);
+        };
+
+        // A session's own transaction is only ever rolled back, and SELECT ... INTO #temp must
+        // outlive the call, so those run directly on the session connection
+        if (session && (session.transaction || createsTempTable)) {
+          return stream(this.sessionRequest(session));
+        }
+
+        // Second line of defence behind the read-only validation: the query runs in a transaction
+        // that is always rolled back, so a construct the parser misreads still cannot persist a write
+        const transaction = new sql.Transaction(dbPool);
+        await transaction.begin();
+        try {
+          return await stream(new sql.Request(transaction));
+        } finally {
+          await this.rollbackTransaction(transaction);
+        }
+      });
+
+      if (streamed.length === 0) {
+        return {
+          recordsets: [{ columns: [], rows: [], recordCount: 0 }],
+          totalRecordCount: 0
+        };
+      }
+
+      const recordsets: Recordset[] = streamed.map(({ columns, rows }) => ({ columns, rows, recordCount: rows.length }));
+      const returnedRows = recordsets.reduce((sum, rs) => sum + rs.recordCount, 0);
+      const hasMore = streamed.some(rs => rs.rowsRead > skipRows + effectiveLimit);
+
+      // Statements map onto recordsets one to one unless some produced no result set; then
+      // every recordset is matched against all tables the batch reads (any table when it was
+      // not parsed), by column name only
+      const maskers = maskingContexts?.length === recordsets.length
+        ? maskingContexts.map(context => createRecordsetMasker(this.policy, context))
+        : maskingContexts && recordsets.map(() => createRecordsetMasker(this.policy, {
+            database: targetDatabase,
+            tables: queries ? maskingContexts.flatMap(context => context.tables ?? []) : null
+          }));
+
+      // Strip the hidden key columns, remembering the last row's values for the next cursor
+      let nextCursor: string | undefined;
+      if (keysetKeys) {
+        const rs = recordsets[0];
+        const keyIndexes = keysetKeys.map(k => rs.columns.indexOf(k.alias));
+        const lastRow = rs.rows[rs.rows.length - 1];
+        const lastValues = lastRow ? keyIndexes.map(i => lastRow[i]) : [];
+        // A cursor would carry the raw key values, so none is issued when masking would change them
+        const keysMasked = !!maskers && keysetKeys.some((k, i) => maskers[0].maskCell(k.column, lastValues[i]) !== lastValues[i]);
+        if (hasMore && lastRow && !keysMasked && keyIndexes.every(i => i >= 0) && lastValues.every(v => v !== null && v !== undefined)) {
+          nextCursor = encodeKeysetCursor({ fingerprint, keys: keysetKeys.map(k => k.column), values: lastValues });
+        }
+        const hidden = new Set(keyIndexes.filter(i => i >= 0));
+        rs.columns = rs.columns.filter((_, i) => !hidden.has(i));
+        rs.rows = rs.rows.map(row => row.filter((_: unknown, i: number) => !hidden.has(i)));
+      }
+      maskers?.forEach((masker, i) => masker.maskRows(recordsets[i].columns, recordsets[i].rows));
+
+      return {
+        recordsets,
+        totalRecordCount: returnedRows,
+        pagination: {
+          offset: resumeFrom ? 0 : effectiveOffset,
+          limit: effectiveLimit,
+          hasMore,
+          // Offsets are meaningless once resuming from a cursor; keep following the cursor instead
+          ...(hasMore && !resumeFrom ? { nextOffset: effectiveOffset + effectiveLimit } : {}),
+          ...(nextCursor ? { cursor: nextCursor } : {}),
+          totalRowsFetched: returnedRows
+        }
+      };
+    } catch (error: unknown) {
+      return await this.handleOperationError(error, 'executeQuery', ErrorType.QUERY_ERROR, { query: query.length > 100 ? query.substring(0, 100) + '...' : query });
+    } finally {
+      if (!session) {
+        await this.releaseConnection(dbPool);
+      }
+    }
+  }
+
+  /**
+   * Roll back the transaction a query or dry run ran in. A transaction the server already aborted
+   * (after an error or a cancelled request) has nothing left to undo, so rollback failures are only logged.
+   */
+  private async rollbackTransaction(transaction: sql.Transaction): Promise<void> {
+    try {
+      await transaction.rollback();
+    } catch (err) {
+      this.logger.debug({ err }, 'DatabaseService: Transaction was already closed before rollback.');
+    }
+  }
+
+  /**
+   * Fetch the estimated showplan XML for a query (with any bound parameters) without executing it.
+   * SHOWPLAN_XML is a connection setting, so the batches run on one pooled connection, held by a
+   * transaction that nothing is written in, and the setting is always switched off again before
+   * the connection goes back to the pool. Queries in a session are planned on the session's
+   * connection, where its temp tables exist.
+   */
+  private async fetchShowplanXml(targetDatabase: string, query: string, parameters: BoundParameter[] = [], session: QuerySession | null = null): Promise<string> {
+    const pool = session ? null : await this.getConnectionForDatabase(targetDatabase);
+    const transaction = pool ? new sql.Transaction(pool) : null;
+    const newRequest = (): sql.Request => (session ? this.sessionRequest(session) : new sql.Request(transaction!));
+    let showplanOn = false;
+    try {
+      if (transaction) {
+        await transaction.begin();
+      }
+      await newRequest().batch('SET SHOWPLAN_XML ON');
+      showplanOn = true;
+      // Parameterized queries go through sp_executesql, which still reports the inner statement's plan
+      const planRequest = newRequest();
+      this.bindParameters(planRequest, parameters);
+      const result = parameters.length > 0 ? await planRequest.query(query) : await planRequest.batch(query);
+
+      // One single-column recordset of plan XML is returned per statement in the batch
+      const plans = ((result.recordsets || []) as Array<sql.IRecordSet<Record<string, string>>>)
+        .map(rs => (rs[0] ? Object.values(rs[0])[0] : ''))
+        .filter(Boolean);
+      if (plans.length === 0) {
+        throw new MssqlMcpError('DatabaseService: SQL Server returned no execution plan.', ErrorType.QUERY_ERROR);
+      }
+      return plans.join('\n');
+    } finally {
+      let connectionReset = true;
+      if (showplanOn) {
+        try {
+          await newRequest().batch('SET SHOWPLAN_XML OFF');
+        } catch (err) {
+          connectionReset = false;
+          this.logger.error({ err, sessionId: session?.id, database: targetDatabase }, 'DatabaseService: Error switching off showplan.');
+        }
+      }
+      if (transaction) {
+        await this.rollbackTransaction(transaction);
+      }
+      if (pool) {
+        // A connection left in showplan mode would answer every later query with a plan
+        if (!connectionReset) {
+          await this.discardPool(pool);
+        }
+        await this.releaseConnection(pool);
+      }
+    }
+  }
+
+  private isCostGuardEnabled(): boolean {
+    return (this.sqlConfig.maxEstimatedCost ?? 0) > 0 || (this.sqlConfig.maxEstimatedRows ?? 0) > 0;
+  }
+
+  /**
+   * Reject a query whose estimated plan exceeds the configured cost or row thresholds.
+   * The row check uses the largest row estimate of any operator, since a paged query can
+   * return few rows while still reading millions. Throws QUERY_COST_EXCEEDED with the most
+   * expensive operators and any missing-index hints so the caller can rewrite the query.
+   */
+  private async assertWithinCostLimits(targetDatabase: string, query: string, parameters: BoundParameter[], session: QuerySession | null = null): Promise<void> {
+    const maxCost = this.sqlConfig.maxEstimatedCost ?? 0;
+    const maxRows = this.sqlConfig.maxEstimatedRows ?? 0;
+    const plan = summarizeShowplan(await this.fetchShowplanXml(targetDatabase, query, parameters, session));
+
+    const operators = plan.statements.flatMap(stmt => (stmt.plan ? flattenPlanOperators(stmt.plan) : []));
+    const estimatedCost = plan.statements.reduce((sum, stmt) => sum + stmt.estimatedCost, 0);
+    const estimatedRows = operators.reduce((max, op) => Math.max(max, op.estimatedRows), 0);
+
+    const costExceeded = maxCost > 0 && estimatedCost > maxCost;
+    const rowsExceeded = maxRows > 0 && estimatedRows > maxRows;
+    if (!costExceeded && !rowsExceeded) {
+      this.logger.debug({ estimatedCost, estimatedRows }, 'DatabaseService: Query within estimated cost limits.');
+      return;
+    }
+
+    const expensiveOperators = [...operators]
+      .sort((a, b) => b.costPercent - a.costPercent || b.estimatedRows - a.estimatedRows)
+      .slice(0, MAX_REPORTED_OPERATORS)
+      .map(({ nodeId, physicalOp, logicalOp, object, accessType, estimatedRows: rows, costPercent }) => ({
+        nodeId, physicalOp, logicalOp, object, accessType, estimatedRows: rows, costPercent
+      }));
+    const missingIndexes = plan.statements.flatMap(stmt => stmt.missingIndexes ?? []);
+
+    const reasons = [
+      ...(costExceeded ? [`estimated cost ${estimatedCost} exceeds the limit of ${maxCost}`] : []),
+      ...(rowsExceeded ? [`an operator is estimated to process ${estimatedRows} rows, exceeding the limit of ${maxRows}`] : []),
+    ];
+    this.logger.warn({ estimatedCost, estimatedRows, maxCost, maxRows }, 'DatabaseService: Query rejected by estimated cost guard.');
+    throw new MssqlMcpError(
+      `DatabaseService: Query rejected before execution: ${reasons.join('; ')}. Add selective filters, use indexed columns, or narrow the columns and joins.`,
+      ErrorType.QUERY_COST_EXCEEDED,
+      undefined,
+      {
+        estimatedCost,
+        estimatedRows,
+        ...(maxCost > 0 ? { maxEstimatedCost: maxCost } : {}),
+        ...(maxRows > 0 ? { maxEstimatedRows: maxRows } : {}),
+        expensiveOperators,
+        ...(missingIndexes.length ? { missingIndexes } : {})
+      }
+    );
+  }
+
+  /**
+   * Return a compact summary of the estimated execution plan for a SELECT query.
+   * The query passes the same validation as executeQuery but is never executed.
+   */
+  public async explainQuery(query: string, rawDatabaseArg?: string, parameters: QueryParameter[] = []): Promise<PlanSummary> {
+    const targetDatabase = rawDatabaseArg || this.sqlConfig.database;
+    this.assertDatabaseAllowed(targetDatabase, 'query explanation');
+
+    this.logger.info({ database: targetDatabase }, 'DatabaseService: Explaining query.');
+
+    const statements = this.parseSelectQuery(query);
+    await this.assertQueryAllowedByPolicy(targetDatabase, query, statements);
+    const queryParams = this.resolveQueryParameters(parameters);
+    const filterParams = await this.applyRowFilterPolicy(targetDatabase, query, statements);
+    const explainedQuery = filterParams && statements ? toSql(statements.length === 1 ? statements[0] : statements) : query;
+    const boundParams = [...queryParams, ...(filterParams ?? [])];
+
+    try {
+      const xml = await this.fetchShowplanXml(targetDatabase, explainedQuery, boundParams);
+      return summarizeShowplan(xml);
+    } catch (error: unknown) {
+      return await this.handleOperationError(error, 'explainQuery', ErrorType.QUERY_ERROR, { query: query.length > 100 ? query.substring(0, 100) + '...' : query });
+    }
+  }
+
+  /**
+   * Run an INSERT, UPDATE, DELETE or MERGE statement for execute_write (only with `enableWrites`).
+   * Without a confirmation token this is a dry run: the statement executes in a transaction that
+   * is always rolled back, and the result reports the rows affected, a sample of the changed rows
+   * before and after, and a single-use token. Sending the token back with the same statement,
+   * database and parameters commits the statement, provided it affects the same number of rows.
+   */
+  public async executeWrite(statement: string, rawDatabaseArg?: string, options: WriteOptions = {}): Promise<WriteResult> {
+    const targetDatabase = rawDatabaseArg || this.sqlConfig.database;
+    if (!this.sqlConfig.enableWrites) {
+      throw new MssqlMcpError('DatabaseService: Write statements are disabled. Set SQL_ENABLE_WRITES=true to allow them.', ErrorType.PERMISSION_ERROR, undefined, { database: targetDatabase });
+    }
+    this.assertDatabaseAllowed(targetDatabase, 'write execution');
+
+    this.logger.info({ database: targetDatabase, confirmed: options.confirmationToken !== undefined }, 'DatabaseService: Executing write statement.');
+
+    if (!statement || statement.trim() === '') {
+      throw new MssqlMcpError('DatabaseService: Statement cannot be empty', ErrorType.VALIDATION_ERROR, undefined, { statement });
+    }
+    this.assertNoDangerousKeywords(statement);
+    const write = analyzeWriteStatement(statement);
+    if ('error' in write) {
+      this.logger.warn({ database: targetDatabase, reason: write.error }, 'DatabaseService: Write statement rejected by validation.');
+      throw new MssqlMcpError(`DatabaseService: Write statement rejected: ${write.error}.`, ErrorType.VALIDATION_ERROR, undefined, { statement: statement.substring(0, 200) });
+    }
+    if (write.target.database) {
+      this.assertDatabaseAllowed(write.target.database, 'write execution');
+    }
+    await this.assertWriteAllowedByPolicy(targetDatabase, statement, write);
+    const params = this.resolveQueryParameters(options.parameters ?? []);
+    const target = [write.target.database, write.target.schema ?? 'dbo', write.target.table].filter(Boolean).join('.');
+
+    const fingerprint = createHash('sha256')
+      .update(`${targetDatabase.toLowerCase()}\n${statement.trim()}\n${JSON.stringify(params.map(p => [p.name.toLowerCase(), p.value]))}`)
+      .digest('hex');
+    const pending = options.confirmationToken !== undefined ? this.takePendingWrite(options.confirmationToken, fingerprint) : null;
+    const samplePlan = pending ? null : await this.planWriteSample(targetDatabase, write);
+
+    const dbPool = await this.getConnectionForDatabase(targetDatabase);
+
+    try {
+      const transaction = new sql.Transaction(dbPool);
+      await transaction.begin();
+      let committed = false;
+      try {
+        const runStatement = async (): Promise<number> => {
+          const request = new sql.Request(transaction);
+          this.bindParameters(request, params);
+          const result = await request.query(statement);
+          return (result.rowsAffected ?? []).reduce((sum, count) => sum + count, 0);
+        };
+
+        if (pending) {
+          const rowsAffected = await runStatement();
+          if (rowsAffected !== pending.rowsAffected) {
+            throw new MssqlMcpError(
+              `DatabaseService: The statement affected ${rowsAffected} rows, but ${pending.rowsAffected} in its dry run; the data changed in between, so nothing was committed. Run a new dry run.`,
+              ErrorType.VALIDATION_ERROR,
+              undefined,
+              { rowsAffected, dryRunRowsAffected: pending.rowsAffected }
+            );
+          }
+          await transaction.commit();
+          committed = true;
+          this.logger.info({ database: targetDatabase, target, rowsAffected }, 'DatabaseService: Write statement committed.');
+          return { committed: true, statementType: write.type, target, rowsAffected };
+        }
+
+        const { rowsAffected, ...sample } = await this.dryRunWrite(transaction, write, params, samplePlan!, runStatement);
+        const token = randomBytes(24).toString('base64url');
+        const expiresAt = Date.now() + WRITE_CONFIRMATION_TTL_MS;
+        this.pendingWrites.set(token, { fingerprint, rowsAffected, expiresAt });
+        this.logger.info({ database: targetDatabase, target, rowsAffected }, 'DatabaseService: Write statement dry run rolled back.');
+        return {
+          dryRun: true,
+          statementType: write.type,
+          target,
+          rowsAffected,
+          ...sample,
+          confirmationToken: token,
+          expiresAt: new Date(expiresAt).toISOString()
+        };
+      } finally {
+        if (!committed) {
+          await this.rollbackTransaction(transaction);
+        }
+      }
+    } catch (error: unknown) {
+      return await this.handleOperationError(error, 'executeWrite', ErrorType.QUERY_ERROR, { statement: statement.length > 100 ? statement.substring(0, 100) + '...' : statement });
+    } finally {
+      await this.releaseConnection(dbPool);
+    }
+  }
+
+  /**
+   * Enforce the access policy on a write statement. Table and column rules apply as for queries,
+   * and an INSERT without a column list may not write a table with restricted columns. Statements
+   * touching a row-filtered table are rejected, since a filter cannot limit which rows a write
+   * changes, and so are statements writing values read from a masked column, which would be
+   * stored unmasked. MERGE cannot be parsed, so it is rejected whenever any of these rules exist.
+   */
+  private async assertWriteAllowedByPolicy(targetDatabase: string, statement: string, write: WriteStatement): Promise<void> {
+    await this.assertQueryAllowedByPolicy(targetDatabase, statement, write.ast ? [write.ast] : null);
+    await this.assertWriteCopiesNoMaskedValues(targetDatabase, write);
+
+    const database = write.target.database ?? targetDatabase;
+    const schema = write.target.schema ?? await this.resolveUnqualifiedSchema(database, write.target.table, 'object');
+    if (write.type === 'insert' && !write.ast!.columns && hasColumnRulesFor(this.policy, database, schema, write.target.table)) {
+      throw new MssqlMcpError(
+        `DatabaseService: '${schema}.${write.target.table}' has restricted columns; list the columns the INSERT writes (policy rule tables.denyColumns).`,
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { table: `${schema}.${write.target.table}`, rule: 'tables.denyColumns' }
+      );
+    }
+
+    if (!hasRowFilters(this.policy)) {
+      return;
+    }
+    if (!write.ast) {
+      throw new MssqlMcpError(
+        'DatabaseService: Row filters cannot be checked on a statement the SQL parser cannot read. Rewrite it using syntax the parser supports.',
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { rule: 'rowFilters' }
+      );
+    }
+    const cteNames = new Set<string>((Array.isArray(write.ast.with) ? write.ast.with : []).map((cte: SqlAst) => String(cte?.name?.value ?? '').toLowerCase()));
+    for (const ref of await this.listReferencedTables(targetDatabase, statement, cteNames)) {
+      const matches = findRowFilters(this.policy, ref.database, ref.schema, ref.table);
+      if (matches.length > 0) {
+        this.logger.warn({ database: targetDatabase, table: `${ref.schema}.${ref.table}` }, 'DatabaseService: Write statement rejected; it touches a row-filtered table.');
+        throw new MssqlMcpError(
+          `DatabaseService: '${ref.schema}.${ref.table}' is subject to a mandatory row filter, so write statements may not reference it (policy rule ${matches[0].rule}).`,
+          ErrorType.PERMISSION_ERROR,
+          undefined,
+          { table: `${ref.schema}.${ref.table}`, rule: matches[0].rule }
+        );
+      }
+    }
+  }
+
+  /**
+   * Reject a write whose values read a column a masking rule covers, e.g.
+   * `INSERT INTO dbo.Notes(Body) SELECT Email FROM dbo.Customers`: the copy would be returned
+   * unmasked by later queries, and by the dry run's samples. Throws PERMISSION_ERROR naming the rule.
+   */
+  private async assertWriteCopiesNoMaskedValues(targetDatabase: string, write: WriteStatement): Promise<void> {
+    if (!hasMaskingRules(this.policy)) {
+      return;
+    }
+    if (!write.ast) {
+      throw new MssqlMcpError(
+        'DatabaseService: Masking rules cannot be checked on a statement the SQL parser cannot read, so it could copy masked values unmasked. Rewrite it as INSERT, UPDATE or DELETE.',
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { rule: 'masking' }
+      );
+    }
+
+    for (const select of buildWrittenValuesSelects(write)) {
+      const tables = collectTableReferences(select);
+      const sources = [...resolveColumnSources(select).values()].flat();
+      for (const table of [...tables, ...sources.flatMap(source => (source.table ? [source.table] : []))]) {
+        table.schema ??= await this.resolveUnqualifiedSchema(table.database ?? targetDatabase, table.table, 'object');
+      }
+      const context: MaskingContext = { database: targetDatabase, tables };
+      for (const source of sources) {
+        const rule = findSourceMaskingRule(this.policy, context, source);
+        if (!rule) continue;
+        const ruleName = `masking.rules[${this.policy.masking!.rules.indexOf(rule)}] ("${rule.column}")`;
+        const column = source.table ? `${source.table.schema}.${source.table.table}.${source.column}` : source.column;
+        this.logger.warn({ database: targetDatabase, column, rule: ruleName }, 'DatabaseService: Write statement rejected; it copies a masked column.');
+        throw new MssqlMcpError(
+          `DatabaseService: The statement writes values read from masked column '${column}', which would be stored unmasked (policy rule ${ruleName}).`,
+          ErrorType.PERMISSION_ERROR,
+          undefined,
+          { column, rule: ruleName }
+        );
+      }
+    }
+  }
+
+  /**
+   * Redeem an execute_write confirmation token. It must be unexpired and issued for a dry run of
+   * the same statement, database and parameters; tokens are single-use, even when rejected.
+   */
+  private takePendingWrite(token: string, fingerprint: string): PendingWrite {
+    const now = Date.now();
+    for (const [key, entry] of this.pendingWrites) {
+      if (entry.expiresAt <= now) this.pendingWrites.delete(key);
+    }
+    const pending = this.pendingWrites.get(token);
+    this.pendingWrites.delete(token);
+    if (!pending) {
+      throw new MssqlMcpError('DatabaseService: Unknown or expired confirmation token. Run the statement without a token for a new dry run.', ErrorType.VALIDATION_ERROR, undefined, { confirmationToken: token.substring(0, 100) });
+    }
+    if (pending.fingerprint !== fingerprint) {
+      throw new MssqlMcpError(
+        'DatabaseService: The confirmation token was issued for a different statement, database or parameters. Run the statement without a token for a new dry run.',
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { confirmationToken: token.substring(0, 100) }
+      );
+    }
+    return pending;
+  }
+
+  /**
+   * Decide how a dry run samples the rows it changes, from the target's metadata: the columns the
+   * policy lets the caller see, the primary key (to find updated rows again) and the identity
+   * column (to find inserted rows). Returns a note instead when no sample can be taken.
+   */
+  private async planWriteSample(targetDatabase: string, write: WriteStatement): Promise<WriteSamplePlan | { note: string }> {
+    if (write.type === 'merge') {
+      return { note: 'Row samples are not available for MERGE statements.' };
+    }
+    const database = write.target.database ?? targetDatabase;
+    const table = await this.findTableSchema(database, write.target.schema, write.target.table);
+    if (!table) {
+      return { note: `'${write.target.table}' is not in the catalog, so its rows cannot be sampled.` };
+    }
+    const columns = table.columns.filter(c => !findDeniedColumnRule(this.policy, database, table.schema, table.name, c.name));
+    const keyColumns = table.columns.filter(c => c.primary).map(c => c.name);
+    return {
+      database,
+      table: { database: write.target.database, schema: table.schema, table: table.name, exposedName: write.target.exposedName },
+      columns: columns.map(c => c.name),
+      keyColumns: keyColumns.every(k => columns.some(c => c.name === k)) ? keyColumns : [],
+      identityColumn: columns.find(c => c.identity)?.name
+    };
+  }
+
+  /**
+   * Run a write statement inside the caller's transaction, sampling the target rows around it:
+   * UPDATE and DELETE read the rows matching the statement first, and UPDATE reads them again by
+   * primary key afterwards; INSERT reads the rows past the table's last identity value. The
+   * caller rolls the transaction back.
+   */
+  private async dryRunWrite(
+    transaction: sql.Transaction,
+    write: WriteStatement,
+    params: BoundParameter[],
+    plan: WriteSamplePlan | { note: string },
+    runStatement: () => Promise<number>
+  ): Promise<{ rowsAffected: number; before?: Recordset; after?: Recordset; sampleNote?: string }> {
+    if ('note' in plan) {
+      return { rowsAffected: await runStatement(), sampleNote: plan.note };
+    }
+
+    const select = async (query: SqlAst, extraParams: BoundParameter[] = []): Promise<Recordset> => {
+      const request = new sql.Request(transaction);
+      this.bindParameters(request, [...params, ...extraParams]);
+      const { recordsets } = this.parseRecordsets((await request.query(toSql(query))).recordsets);
+      return recordsets[0] ?? { columns: plan.columns, rows: [], recordCount: 0 };
+    };
+    const empty = (): Recordset => ({ columns: plan.columns, rows: [], recordCount: 0 });
+
+    let rowsAffected: number;
+    let before: Recordset;
+    let after: Recordset | undefined;
+    let sampleNote: string | undefined;
+    if (write.type === 'insert') {
+      if (!plan.identityColumn) {
+        return { rowsAffected: await runStatement(), sampleNote: 'Inserted rows cannot be sampled because the table has no identity column.' };
+      }
+      const last = await select(buildIdentitySelect(plan.table, [plan.identityColumn], plan.identityColumn, 1, 'DESC'));
+      const lastValue = last.rows[0]?.[0] ?? null;
+      rowsAffected = await runStatement();
+      before = empty();
+      after = lastValue === null
+        ? await select(buildIdentitySelect(plan.table, plan.columns, plan.identityColumn, WRITE_SAMPLE_ROWS, 'ASC'))
+        : await select(buildIdentitySelect(plan.table, plan.columns, plan.identityColumn, WRITE_SAMPLE_ROWS, 'ASC', '__last_identity'), [{ name: '__last_identity', value: lastValue }]);
+    } else {
+      before = await select(buildAffectedRowsSelect(write, plan.columns, WRITE_SAMPLE_ROWS));
+      rowsAffected = await runStatement();
+      if (write.type === 'delete') {
+        after = empty();
+      } else if (plan.keyColumns.length === 0) {
+        sampleNote = 'Updated rows cannot be read back because the table has no primary key visible to this server.';
+      } else if (before.rows.length === 0) {
+        after = empty();
+      } else {
+        const keyIndexes = plan.keyColumns.map(k => before.columns.indexOf(k));
+        const keyParams = before.rows.map((row, r) => keyIndexes.map((index, k): BoundParameter => ({ name: `__key${r}_${k}`, value: row[index] })));
+        after = await select(buildKeyLookupSelect(plan.table, plan.columns, plan.keyColumns, keyParams.map(row => row.map(p => p.name))), keyParams.flat());
+      }
+    }
+
+    // Samples are plain columns of the target table, so masking rules apply by that table
+    if (hasMaskingRules(this.policy)) {
+      const masker = createRecordsetMasker(this.policy, {
+        database: plan.database,
+        tables: [plan.table],
+        columnSources: new Map(plan.columns.map(column => [column.toLowerCase(), [{ column, table: plan.table }]]))
+      });
+      [before, after].forEach(rs => rs && masker.maskRows(rs.columns, rs.rows));
+    }
+    return { rowsAffected, before, ...(after ? { after } : {}), ...(sampleNote ? { sampleNote } : {}) };
+  }
+
+  private isSameTypeName(a: string, b: string): boolean {
+    const normalize = (name: string) => {
+      const parts = name.replace(/[\[\]]/g, '').toLowerCase().split('.');
+      return parts.length === 1 ? `dbo.${parts[0]}` : parts.join('.');
+    };
+    return normalize(a) === normalize(b);
+  }
+
+  /**
+   * Columns of a user-defined table type (`schema.name`, or `name` in dbo), cached like table schemas.
+   * Throws VALIDATION_ERROR when the type does not exist or has columns a caller cannot supply.
+   */
+  private async getTableTypeSchema(database: string, typeName: string): Promise<TableTypeSchema> {
+    const parts = typeName.replace(/[\[\]]/g, '').split('.');
+    const name = parts.pop()!;
+    const schemaName = parts.pop() || 'dbo';
+
+    const cacheKey = `${database}|${schemaName}.${name}`.toLowerCase();
+    const cached = this.tableTypeCache.get(cacheKey);
+    if (this.isCacheFresh(cached)) {
+      return cached!.data;
+    }
+
+    this.logger.info({ database, tableType: `${schemaName}.${name}` }, 'DatabaseService: Fetching table type definition.');
+    const dbPool = await this.getConnectionForDatabase(database);
+
+    let rows: TableTypeColumnRow[];
+    try {
+      const result = await dbPool.request()
+        .input('schemaName', sql.NVarChar(128), schemaName)
+        .input('typeName', sql.NVarChar(128), name)
+        .query<TableTypeColumnRow>(TABLE_TYPE_QUERY);
+      rows = result.recordset;
+    } catch (error: unknown) {
+      return await this.handleOperationError(error, 'getTableTypeSchema', ErrorType.SCHEMA_ERROR, { database, tableType: typeName });
+    } finally {
+      await this.releaseConnection(dbPool);
+    }
+
+    if (rows.length === 0) {
+      throw new MssqlMcpError(
+        `DatabaseService: Table type '${schemaName}.${name}' was not found in database '${database}'.`,
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { database, tableType: typeName }
+      );
+    }
+    const generated = rows.filter(r => r.IS_IDENTITY || r.IS_COMPUTED).map(r => r.COLUMN_NAME);
+    if (generated.length > 0) {
+      throw new MssqlMcpError(
+        `DatabaseService: Table type '${schemaName}.${name}' has identity or computed columns (${generated.join(', ')}), which are not supported in table-valued parameters.`,
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { database, tableType: typeName, columns: generated }
+      );
+    }
+
+    const tableType: TableTypeSchema = {
+      schema: rows[0].SCHEMA_NAME,
+      name: rows[0].TYPE_NAME,
+      fullName: `${rows[0].SCHEMA_NAME}.${rows[0].TYPE_NAME}`,
+      columns: rows.map(row => {
+        const baseType = (row.SYSTEM_TYPE ?? '').toLowerCase();
+        const maxLength = row.MAX_LENGTH ?? 0;
+        return {
+          name: row.COLUMN_NAME,
+          type: formatColumnType(row.DATA_TYPE ?? '', row.SYSTEM_TYPE ?? '', maxLength, row.NUMERIC_PRECISION ?? 0, row.NUMERIC_SCALE ?? 0),
+          baseType,
+          maxLength: maxLength !== -1 && (baseType === 'nchar' || baseType === 'nvarchar') ? maxLength / 2 : maxLength,
+          sqlType: this.catalogSqlType(row, `${row.SCHEMA_NAME}.${row.TYPE_NAME}.${row.COLUMN_NAME}`),
+          nullable: row.IS_NULLABLE
+        };
+      })
+    };
+    this.tableTypeCache.set(cacheKey, { timestamp: Date.now(), data: tableType });
+    return tableType;
+  }
+
+  /**
+   * Build the sql.Table sent for a table-valued parameter from an array of row objects.
+   * Row keys match column names case-insensitively; omitted columns are NULL. Throws
+   * VALIDATION_ERROR naming the first row and column that does not fit the table type.
+   */
+  private buildTableValuedParameter(paramName: string, tableType: TableTypeSchema, rows: unknown): sql.Table {
+    if (!Array.isArray(rows)) {
+      throw new MssqlMcpError(
+        `DatabaseService: Table-valued parameter '${paramName}' expects an array of row objects`,
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { parameter: paramName, tableType: tableType.fullName }
+      );
+    }
+
+    const table = new sql.Table();
+    table.schema = tableType.schema;
+    table.name = tableType.name;
+    for (const column of tableType.columns) {
+      table.columns.add(column.name, column.sqlType, { nullable: column.nullable });
+    }
+
+    const columnNames = tableType.columns.map(c => c.name);
+    rows.forEach((row: unknown, index: number) => {
+      const fail = (message: string, extra: Record<string, unknown> = {}): never => {
+        throw new MssqlMcpError(
+          `DatabaseService: Table-valued parameter '${paramName}' row ${index}: ${message}`,
+          ErrorType.VALIDATION_ERROR,
+          undefined,
+          { parameter: paramName, tableType: tableType.fullName, row: index, ...extra }
+        );
+      };
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        fail('must be an object keyed by column name', { columns: columnNames });
+      }
+
+      const values = new Map(Object.entries(row as Record<string, unknown>).map(([k, v]) => [k.toLowerCase(), { key: k, value: v }]));
+      for (const { key } of values.values()) {
+        if (!columnNames.some(c => c.toLowerCase() === key.toLowerCase())) {
+          fail(`unknown column '${key}'`, { columns: columnNames });
+        }
+      }
+
+      const cells = tableType.columns.map(column => {
+        const converted = convertTableTypeValue(column, values.get(column.name.toLowerCase())?.value);
+        if ('error' in converted) {
+          fail(`column '${column.name}' ${converted.error}`, { column: column.name });
+        }
+        return (converted as { value: unknown }).value;
+      });
+      table.rows.add(...(cells as any[]));
+    });
+    return table;
+  }
+
+  /**
+   * Check caller-supplied parameters against the procedure's catalog signature and pair each
+   * with the mssql type it binds as: the caller's explicit type, else the declared one.
+   * Throws VALIDATION_ERROR for unknown, duplicate or missing required parameters. When the
+   * procedure is not in the catalog, every parameter must carry an explicit type.
+   * Table-valued parameters are built into an sql.Table from their table type's definition.
+   */
+  private async resolveProcedureParameters(database: string, procedure: string, signature: ResolvedProcedure | null, parameters: StoredProcedureParameter[]): Promise<BoundParameter[]> {
+    const seen = new Set<string>();
+    const bound: BoundParameter[] = [];
+
+    for (const param of parameters) {
+      if (!param.name) {
+        throw new MssqlMcpError('DatabaseService: Each parameter must have a name', ErrorType.VALIDATION_ERROR, undefined, { parameter: param });
+      }
+      const paramName = param.name.startsWith('@') ? param.name : `@${param.name}`;
+      const key = paramName.toLowerCase();
+      if (seen.has(key)) {
+        throw new MssqlMcpError(`DatabaseService: Parameter '${paramName}' is supplied more than once`, ErrorType.VALIDATION_ERROR, undefined, { procedure, parameter: paramName });
+      }
+      seen.add(key);
+
+      const declared = signature?.schema.parameters.find(p => p.name.toLowerCase() === key);
+      if (signature && !declared) {
+        throw new MssqlMcpError(
+          `DatabaseService: Procedure '${signature.schema.fullName}' has no parameter '${paramName}'`,
+          ErrorType.VALIDATION_ERROR,
+          undefined,
+          { procedure, parameter: paramName, expectedParameters: signature.schema.parameters.map(p => p.name) }
+        );
+      }
+
+      const direction = param.direction ?? 'input';
+      if (direction !== 'input' && declared && declared.direction !== 'output') {
+        throw new MssqlMcpError(
+          `DatabaseService: Parameter '${paramName}' of '${signature!.schema.fullName}' is not declared OUTPUT`,
+          ErrorType.VALIDATION_ERROR,
+          undefined,
+          { procedure, parameter: paramName, direction }
+        );
+      }
+
+      if (declared?.tableType || param.tableType) {
+        if (declared && !declared.tableType) {
+          throw new MssqlMcpError(`DatabaseService: Parameter '${paramName}' of '${signature!.schema.fullName}' is not table-valued`, ErrorType.VALIDATION_ERROR, undefined, { procedure, parameter: paramName });
+        }
+        if (declared && param.tableType && !this.isSameTypeName(param.tableType, declared.type)) {
+          throw new MssqlMcpError(
+            `DatabaseService: Parameter '${paramName}' expects table type '${declared.type}', not '${param.tableType}'`,
+            ErrorType.VALIDATION_ERROR,
+            undefined,
+            { procedure, parameter: paramName, tableType: param.tableType }
+          );
+        }
+        if (direction !== 'input') {
+          throw new MssqlMcpError(`DatabaseService: Table-valued parameter '${paramName}' is READONLY and cannot be OUTPUT`, ErrorType.VALIDATION_ERROR, undefined, { procedure, parameter: paramName });
+        }
+        const tableType = await this.getTableTypeSchema(database, (param.tableType ?? declared!.type));
+        bound.push({ name: paramName.substring(1), type: sql.TVP, value: this.buildTableValuedParameter(paramName, tableType, param.value) });
+        continue;
+      }
+
+      let type: BoundParameter['type'];
+      if (param.type) {
+        type = this.mapStringToSqlType(param.type, signature?.parameterTypes.get(key));
+      } else if (signature?.parameterTypes.has(key)) {
+        type = signature.parameterTypes.get(key);
+      } else {
+        throw new MssqlMcpError(
+          `DatabaseService: Parameter '${paramName}' has no type, and the signature of '${procedure}' could not be read from the catalog`,
+          ErrorType.VALIDATION_ERROR,
+          undefined,
+          { procedure, parameter: paramName }
+        );
+      }
+      bound.push({
+        name: paramName.substring(1),
+        type,
+        value: direction === 'output' ? null : param.value,
+        ...(direction !== 'input' ? { output: true } : {})
+      });
+    }
+
+    // Table-valued parameters default to an empty table; unknown defaults (encrypted modules) are not enforced
+    const missing = (signature?.schema.parameters ?? [])
+      .filter(p => p.hasDefault === false && !p.tableType && !seen.has(p.name.toLowerCase()))
+      .map(p => p.name);
+    if (missing.length > 0) {
+      throw new MssqlMcpError(
+        `DatabaseService: Missing required parameter(s) for '${signature!.schema.fullName}': ${missing.join(', ')}`,
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { procedure, missingParameters: missing }
+      );
+    }
+    return bound;
+  }
+
+  /**
+   * Enforce the stored procedure rules of the access policy and return the name to execute.
+   * A procedure found in the catalog is checked and executed under its schema-qualified name.
+   * An unqualified name that is not in the catalog is checked under every schema the server may
+   * resolve it to (the default schema and dbo) and executed as given.
+   * Throws PERMISSION_ERROR naming the rule that blocked the call.
+   */
+  private async assertProcedureAllowedByPolicy(database: string, procedure: string, signature: ResolvedProcedure | null): Promise<string> {
+    const parts = procedure.split('.');
+    const name = signature?.schema.name ?? parts.pop()!;
+    const givenSchema = signature?.schema.schema ?? parts.pop();
+    const schemas = givenSchema ? [givenSchema] : [...new Set([await this.getDefaultSchema(database), 'dbo'])];
+
+    for (const schema of schemas) {
+      const decision = evaluateProcedurePolicy(this.policy, database, schema, name);
+      if (!decision.allowed) {
+        this.logger.warn({ database, procedure: `${schema}.${name}`, rule: decision.rule }, 'DatabaseService: Stored procedure blocked by policy.');
+        throw new MssqlMcpError(
+          `DatabaseService: Execution of '${schema}.${name}' in database '${database}' is blocked by policy rule ${decision.rule}.`,
+          ErrorType.PERMISSION_ERROR,
+          undefined,
+          { database, procedure: `${schema}.${name}`, rule: decision.rule }
+        );
+      }
+    }
+
+    const quote = (identifier: string) => `[${identifier.replace(/]/g, ']]')}]`;
+    return signature ? `${quote(signature.schema.schema)}.${quote(signature.schema.name)}` : procedure;
+  }
+
+  public async executeStoredProcedure(procedure: string, parameters: StoredProcedureParameter[] = [], rawDatabaseArg?: string, sessionId?: string): Promise<StoredProcedureResult> {
+    const session = sessionId !== undefined ? this.getSession(sessionId, rawDatabaseArg) : null;
+    const targetDatabase = session?.database ?? (rawDatabaseArg || this.sqlConfig.database);
+    this.assertDatabaseAllowed(targetDatabase, 'stored procedure execution');
+
+    this.logger.info({ database: targetDatabase, procedure, parametersCount: parameters.length, sessionId: session?.id }, `DatabaseService: Executing stored procedure ${procedure}`);
+
+    if (!procedure || procedure.trim() === '') {
+      throw new MssqlMcpError('DatabaseService: Procedure name cannot be empty', ErrorType.VALIDATION_ERROR, undefined, { procedure });
+    }
+
+    if (!/^([a-zA-Z0-9_]+\.)?[a-zA-Z0-9_]+$/.test(procedure)) {
+      throw new MssqlMcpError('DatabaseService: Invalid procedure name format. Use [schema].[procedure_name]', ErrorType.VALIDATION_ERROR, undefined, { procedure });
+    }
+
+    // Check against deny-list of dangerous system procedures
+    const normalizedProcName = procedure.toLowerCase().split('.').pop()!;
+    if (DENIED_SYSTEM_PROCEDURES.has(normalizedProcName)) {
+      throw new MssqlMcpError(
+        `DatabaseService: Execution of system procedure '${procedure}' is not allowed.`,
+        ErrorType.PERMISSION_ERROR,
+        undefined,
+        { procedure }
+      );
+    }
+
+    const signature = await this.findProcedureForExecution(targetDatabase, procedure);
+    if (!signature) {
+      this.logger.warn({ database: targetDatabase, procedure }, 'DatabaseService: Procedure signature not found in catalog; parameters are not validated.');
+    }
+    const executedName = await this.assertProcedureAllowedByPolicy(targetDatabase, procedure, signature);
+    const boundParameters = await this.resolveProcedureParameters(targetDatabase, procedure, signature, parameters);
+
+    const dbPool = session ? session.pool : await this.getConnectionForDatabase(targetDatabase);
+
+    try {
+      const result = await this.runInSession(session, () => {
+        const request = session ? this.sessionRequest(session) : dbPool.request();
+        this.bindParameters(request, boundParameters);
+        return request.execute(executedName);
+      });
+
+      const { recordsets, totalRecordCount } = this.parseRecordsets(result.recordsets);
+
+      // The tables behind a procedure's results are unknown, so table-qualified column rules
+      // apply to any column with a matching name; OUTPUT parameters are masked like columns
+      if (hasMaskingRules(this.policy)) {
+        const masker = createRecordsetMasker(this.policy, { database: targetDatabase, tables: null });
+        recordsets.forEach(rs => masker.maskRows(rs.columns, rs.rows));
+        for (const [name, value] of Object.entries(result.output ?? {})) {
+          result.output[name] = masker.maskCell(name.replace(/^@/, ''), value);
+        }
+      }
+
+      if (recordsets.length > 0 && totalRecordCount > 0) {
+        return {
+          recordsets,
+          totalRecordCount,
+          outputParameters: result.output,
+          returnValue: result.returnValue,
+          rowsAffected: result.rowsAffected
+        };
+      } else {
+        return {
+          message: 'Stored procedure executed successfully, but returned no records',
+          outputParameters: result.output,
+          returnValue: result.returnValue,
+          rowsAffected: result.rowsAffected,
+          recordCount: 0
+        };
+      }
+    } catch (error: unknown) {
+      return await this.handleOperationError(error, 'executeStoredProcedure', ErrorType.STORED_PROCEDURE_ERROR, { procedure });
+    } finally {
+      if (!session) {
+        await this.releaseConnection(dbPool);
+      }
+    }
+  }
+
+  /**
+   * Open a session: a dedicated single-connection pool that later execute_query and
+   * execute_stored_procedure calls can pin by id, so temp tables and session settings carry over
+   * between calls. With `snapshot`, the session also holds a SNAPSHOT isolation transaction, so
+   * every call reads the same committed data; it is rolled back when the session closes.
+   * Sessions close after `sessionIdleTimeoutMs` without calls, and at most `maxSessions` are open.
+   */
+  public async openSession(rawDatabaseArg?: string, options: SessionOptions = {}): Promise<SessionInfo> {
+    const targetDatabase = rawDatabaseArg || this.sqlConfig.database;
+    this.assertDatabaseAllowed(targetDatabase, 'session');
+
+    const maxSessions = this.sqlConfig.maxSessions ?? DEFAULT_MAX_SESSIONS;
+    if (this.sessions.size + this.openingSessions >= maxSessions) {
+      throw new MssqlMcpError(
+        `DatabaseService: The limit of ${maxSessions} open sessions has been reached. Close a session with close_session before opening another.`,
+        ErrorType.SESSION_ERROR,
+        undefined,
+        { maxSessions }
+      );
+    }
+
+    this.logger.info({ database: targetDatabase, snapshot: !!options.snapshot }, 'DatabaseService: Opening session.');
+    this.openingSessions++;
+    let pool: sql.ConnectionPool | null = null;
+    try {
+      // min: 1 keeps the one connection (and its temp tables) from being reaped while idle
+      pool = await this.openDedicatedConnection(targetDatabase, { min: 1, max: 1 });
+      let transaction: sql.Transaction | null = null;
+      if (options.snapshot) {
+        const state = await pool.request().query('SELECT snapshot_isolation_state AS state FROM sys.databases WHERE database_id = DB_ID()');
+        if (state.recordset[0]?.state !== 1) {
+          throw new MssqlMcpError(
+            `DatabaseService: Snapshot isolation is not enabled for database '${targetDatabase}' (ALTER DATABASE ... SET ALLOW_SNAPSHOT_ISOLATION ON). Open the session without snapshot instead.`,
+            ErrorType.SESSION_ERROR,
+            undefined,
+            { database: targetDatabase }
+          );
+        }
+        transaction = new sql.Transaction(pool);
+        await transaction.begin(sql.ISOLATION_LEVEL.SNAPSHOT);
+      }
+
+      const session: QuerySession = {
+        id: randomBytes(16).toString('hex'),
+        database: targetDatabase,
+        pool,
+        transaction,
+        openedAt: Date.now(),
+        idleTimer: null,
+        queue: Promise.resolve(),
+        activeCalls: 0
+      };
+      this.sessions.set(session.id, session);
+      this.scheduleSessionIdleClose(session);
+      this.logger.info({ sessionId: session.id, database: targetDatabase, snapshot: !!transaction }, 'DatabaseService: Session opened.');
+      return {
+        sessionId: session.id,
+        database: targetDatabase,
+        snapshot: !!transaction,
+        idleTimeoutMs: this.sqlConfig.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS,
+        openedAt: new Date(session.openedAt).toISOString()
+      };
+    } catch (error: unknown) {
+      if (pool) {
+        await this.closeDedicatedConnection(pool).catch(err => this.logger.error({ err }, 'DatabaseService: Error closing connection of failed session.'));
+      }
+      return await this.handleOperationError(error, 'openSession', ErrorType.SESSION_ERROR, { database: targetDatabase });
+    } finally {
+      this.openingSessions--;
+    }
+  }
+
+  /**
+   * Close a session once its running call, if any, has finished: its transaction is rolled back
+   * and its connection closed, which drops its temp tables.
+   */
+  public async closeSession(sessionId: string): Promise<{ sessionId: string; closed: true }> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw this.unknownSessionError(sessionId);
+    }
+    await this.disposeSession(session, 'closed by request');
+    return { sessionId, closed: true };
+  }
+
+  /**
+   * Close every open session, for shutdown.
+   */
+  public async closeAllSessions(): Promise<void> {
+    await Promise.all([...this.sessions.values()].map(session => this.disposeSession(session, 'server shutdown')));
+  }
+
+  // Whether a session is open on this service
+  public hasSession(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  private unknownSessionError(sessionId: string): MssqlMcpError {
+    return new MssqlMcpError(
+      'DatabaseService: Unknown or expired session. Sessions close after a period without calls; open a new one with open_session.',
+      ErrorType.SESSION_ERROR,
+      undefined,
+      { sessionId }
+    );
+  }
+
+  /**
+   * Look up an open session for a call. A database argument, if given, must name the session's database.
+   */
+  private getSession(sessionId: string, rawDatabaseArg?: string): QuerySession {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw this.unknownSessionError(sessionId);
+    }
+    if (rawDatabaseArg && rawDatabaseArg.toLowerCase() !== session.database.toLowerCase()) {
+      throw new MssqlMcpError(
+        `DatabaseService: Session is connected to database '${session.database}', not '${rawDatabaseArg}'. Omit database or open a session on that database.`,
+        ErrorType.VALIDATION_ERROR,
+        undefined,
+        { sessionId, database: rawDatabaseArg, sessionDatabase: session.database }
+      );
+    }
+    return session;
+  }
+
+  // Requests on a session go through its transaction when it holds one
+  private sessionRequest(session: QuerySession): sql.Request {
+    return session.transaction ? new sql.Request(session.transaction) : session.pool.request();
+  }
+
+  /**
+   * Run `work` for a call, one call at a time on a session (its connection serves one request
+   * at a time), keeping the session from idling out while the call runs. Without a session,
+   * `work` simply runs.
+   */
+  private runInSession<T>(session: QuerySession | null, work: () => Promise<T>): Promise<T> {
+    if (!session) {
+      return work();
+    }
+    const run = session.queue.then(async () => {
+      if (!this.sessions.has(session.id)) {
+        throw this.unknownSessionError(session.id);
+      }
+      session.activeCalls++;
+      try {
+        return await work();
+      } finally {
+        session.activeCalls--;
+        this.scheduleSessionIdleClose(session);
+      }
+    });
+    session.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private scheduleSessionIdleClose(session: QuerySession): void {
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+    }
+    const idleTimeoutMs = this.sqlConfig.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+    session.idleTimer = setTimeout(() => {
+      if (session.activeCalls > 0) {
+        this.scheduleSessionIdleClose(session);
+        return;
+      }
+      this.disposeSession(session, 'idle timeout').catch(err => this.logger.error({ err, sessionId: session.id }, 'DatabaseService: Error closing idle session.'));
+    }, idleTimeoutMs);
+    // An idle session must not keep the process alive
+    session.idleTimer.unref();
+  }
+
+  private async disposeSession(session: QuerySession, reason: string): Promise<void> {
+    if (!this.sessions.delete(session.id)) {
+      return;
+    }
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+    }
+    await session.queue;
+    if (session.transaction) {
+      await this.rollbackTransaction(session.transaction);
+    }
+    try {
+      await this.closeDedicatedConnection(session.pool);
+    } catch (err) {
+      this.logger.error({ err, sessionId: session.id }, 'DatabaseService: Error closing session connection.');
     }
+    this.logger.info({ sessionId: session.id, database: session.database, reason, durationMs: Date.now() - session.openedAt }, 'DatabaseService: Session closed.');
   }
 }
@@ -0,0 +1,111 @@
+// Access tokens for azure-active-directory-access-token authentication. The token is read from
+// a file or printed by a command (e.g. `az account get-access-token ... -o tsv`), kept until
+// shortly before it expires, and read again when a new connection needs it after that.
+import { readFile } from 'fs/promises';
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import { Logger } from 'pino';
+import { MssqlMcpError, ErrorType } from './errors.js';
+
+const execAsync = promisify(exec);
+
+export const DEFAULT_TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Lifetime assumed for tokens that are not JWTs or carry no `exp` claim
+const UNKNOWN_TOKEN_LIFETIME_MS = 10 * 60 * 1000;
+const TOKEN_COMMAND_TIMEOUT_MS = 30000;
+
+export interface AccessTokenSourceOptions {
+  tokenFile?: string;
+  tokenCommand?: string;
+  refreshMarginMs?: number;
+}
+
+// Same shape as @azure/core-auth's AccessToken, which tedious's token-credential mode expects
+export interface AccessToken {
+  token: string;
+  expiresOnTimestamp: number;
+}
+
+/**
+ * Expiry of a JWT in epoch milliseconds, from the `exp` claim of its payload.
+ * Returns null when the token is not a JWT or has no numeric `exp`.
+ */
+export function readJwtExpiry(token: string): number | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    return typeof payload?.exp === 'number' ? payload.exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+export class AccessTokenSource {
+  private cached: AccessToken | null = null;
+  // Read in progress, shared by connections opened at the same time
+  private pending: Promise<AccessToken> | null = null;
+  private readonly refreshMarginMs: number;
+
+  constructor(private readonly options: AccessTokenSourceOptions, private readonly logger: Logger) {
+    this.refreshMarginMs = options.refreshMarginMs ?? DEFAULT_TOKEN_REFRESH_MARGIN_MS;
+  }
+
+  /**
+   * Current token, read again once it is within the refresh margin of its expiry.
+   * Throws CONNECTION_ERROR when the token cannot be read or has already expired.
+   */
+  public async getToken(): Promise<AccessToken> {
+    if (this.cached && this.cached.expiresOnTimestamp - this.refreshMarginMs > Date.now()) {
+      return this.cached;
+    }
+    if (!this.pending) {
+      this.pending = this.readToken().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private describeSource(): string {
+    return this.options.tokenFile ? `token file '${this.options.tokenFile}'` : 'token command';
+  }
+
+  private async readToken(): Promise<AccessToken> {
+    let raw: string;
+    try {
+      raw = this.options.tokenFile
+        ? await readFile(this.options.tokenFile, 'utf8')
+        : (await execAsync(this.options.tokenCommand!, { timeout: TOKEN_COMMAND_TIMEOUT_MS, windowsHide: true })).stdout;
+    } catch (err) {
+      throw new MssqlMcpError(
+        `Could not read an access token from the ${this.describeSource()}: ${(err instanceof Error ? err.message : String(err)).trim()}`,
+        ErrorType.CONNECTION_ERROR,
+        err instanceof Error ? err : undefined,
+        { tokenFile: this.options.tokenFile }
+      );
+    }
+
+    const token = raw.trim();
+    if (!token) {
+      throw new MssqlMcpError(`The ${this.describeSource()} returned an empty access token.`, ErrorType.CONNECTION_ERROR, undefined, { tokenFile: this.options.tokenFile });
+    }
+    const expiry = readJwtExpiry(token);
+    const now = Date.now();
+    if (expiry !== null && expiry <= now) {
+      throw new MssqlMcpError(
+        `The access token from the ${this.describeSource()} expired at ${new Date(expiry).toISOString()}.`,
+        ErrorType.CONNECTION_ERROR,
+        undefined,
+        { tokenFile: this.options.tokenFile, expiresAt: new Date(expiry).toISOString() }
+      );
+    }
+    if (expiry !== null && expiry - this.refreshMarginMs <= now) {
+      this.logger.warn({ expiresAt: new Date(expiry).toISOString() }, `AccessTokenSource: Token from the ${this.describeSource()} expires within the refresh margin.`);
+    }
+
+    this.cached = { token, expiresOnTimestamp: expiry ?? now + UNKNOWN_TOKEN_LIFETIME_MS };
+    this.logger.info({ expiresAt: new Date(this.cached.expiresOnTimestamp).toISOString(), expiryKnown: expiry !== null }, `AccessTokenSource: Access token read from the ${this.describeSource()}.`);
+    return this.cached;
+  }
+}
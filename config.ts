@@ -0,0 +1,463 @@
+// SQL Server connection configuration.
+// Settings come from built-in defaults, then the optional JSON or YAML file named by
+// SQL_CONFIG_FILE, then environment variables (loaded from .env), and are validated as a whole so
+// a bad value stops the server with the key at fault. Policy settings such as allowedDatabases and
+// maxRows can be reloaded at runtime; connection settings keep their startup values.
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { MssqlMcpError, ErrorType } from './errors.js';
+
+const milliseconds = z.number().int().min(0);
+const count = z.number().int().min(0);
+
+// How the server logs in. `user` and `password` are the SQL login (default), the domain account
+// (ntlm) or the Entra ID user (azure-active-directory-password).
+const authenticationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('default') }).strict(),
+  z.object({
+    type: z.literal('ntlm'),
+    domain: z.string().min(1),
+  }).strict(),
+  z.object({
+    type: z.literal('azure-active-directory-password'),
+    clientId: z.string().min(1),
+    tenantId: z.string().min(1).optional(),
+  }).strict(),
+  z.object({
+    type: z.literal('azure-active-directory-service-principal-secret'),
+    clientId: z.string().min(1),
+    clientSecret: z.string().min(1),
+    tenantId: z.string().min(1),
+  }).strict(),
+  z.object({
+    type: z.literal('azure-active-directory-access-token'),
+    // Token read from a file, or printed by a shell command
+    tokenFile: z.string().min(1).optional(),
+    tokenCommand: z.string().min(1).optional(),
+    // How long before its expiry a token is read again
+    refreshMarginMs: milliseconds.optional(),
+  }).strict(),
+]).superRefine((auth, ctx) => {
+  if (auth.type === 'azure-active-directory-access-token' && !!auth.tokenFile === !!auth.tokenCommand) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'needs exactly one of tokenFile or tokenCommand' });
+  }
+});
+
+// Connection settings of one server; named profiles have the same shape
+const serverSettingsSchema = z.object({
+  server: z.string().min(1, 'is required'),
+  port: z.number().int().min(1).max(65535),
+  user: z.string(),
+  password: z.string(),
+  database: z.string().min(1),
+  connectionTimeout: milliseconds,
+  requestTimeout: milliseconds,
+  pool: z.object({
+    max: z.number().int().min(1),
+    min: count,
+    idleTimeoutMillis: milliseconds,
+  }).strict(),
+  // Pools kept for databases other than `database`, least recently used closed first
+  databasePools: z.object({
+    max: count,
+    connections: z.number().int().min(1),
+    idleTimeoutMs: milliseconds,
+  }).strict(),
+  // Connections to the server across the main pool, database pools and sessions; 0 for no limit
+  maxConnections: count,
+  options: z.object({
+    encrypt: z.boolean(),
+    trustServerCertificate: z.boolean(),
+  }).strict(),
+  maxRetries: count,
+  initialRetryDelay: milliseconds,
+  maxRetryDelay: milliseconds,
+  allowedDatabases: z.array(z.string().min(1)),
+  authentication: authenticationSchema,
+}).strict();
+
+// Prefix of a profile's environment variables, e.g. SQL_PROFILE_PROD_REPLICA_ for prod-replica
+function profileEnvPrefix(name: string): string {
+  return `SQL_PROFILE_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+}
+
+const profilesSchema = z.record(serverSettingsSchema).superRefine((profiles, ctx) => {
+  const prefixes = new Map<string, string>();
+  for (const name of Object.keys(profiles)) {
+    const prefix = profileEnvPrefix(name);
+    if (!/^[A-Za-z][A-Za-z0-9_-]*$/.test(name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [name], message: "profile names use letters, digits, '_' and '-', starting with a letter" });
+    } else if (name.toLowerCase() === 'default') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [name], message: 'the name is reserved for the top-level server settings' });
+    } else if (prefixes.has(prefix)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [name], message: `reads the same ${prefix}* variables as '${prefixes.get(prefix)}'` });
+    }
+    prefixes.set(prefix, name);
+  }
+});
+
+const sqlConfigSchema = serverSettingsSchema.extend({
+  // Additional named servers, selected with the `server` tool argument; the top-level settings
+  // are the "default" profile
+  profiles: profilesSchema,
+  schemaCacheTTL: milliseconds,
+  maxRows: z.number().int().min(1),
+  // Estimated-plan guard for execute_query; 0 disables each check
+  maxEstimatedCost: z.number().min(0),
+  maxEstimatedRows: count,
+  // JSON access policy (stored procedure allow/deny rules); empty allows every non-system procedure
+  policyFile: z.string(),
+  // Fall back to the token-based read-only validator for queries the SQL parser rejects
+  allowUnparsedQueries: z.boolean(),
+  // Register the execute_write tool (dry run first, commit with the returned confirmation token)
+  enableWrites: z.boolean(),
+  // open_session limits: sessions open at once, and idle time before a session is closed
+  maxSessions: count,
+  sessionIdleTimeoutMs: milliseconds,
+  logLevel: z.enum(['fatal', 'error', 'warn', 'info', 'debug', 'trace', 'silent']),
+}).strict();
+
+export type SqlConfigSettings = z.infer<typeof sqlConfigSchema>;
+export type ServerSettings = z.infer<typeof serverSettingsSchema>;
+export type AuthenticationSettings = z.infer<typeof authenticationSchema>;
+
+const DEFAULTS = {
+  user: 'sa',
+  password: 'yourStrong(!)Password',
+  server: 'localhost',
+  database: 'master',
+  port: 1433,
+  connectionTimeout: 15000,
+  requestTimeout: 15000,
+  pool: { max: 10, min: 0, idleTimeoutMillis: 30000 },
+  databasePools: { max: 8, connections: 2, idleTimeoutMs: 300000 }, // 5 minutes
+  maxConnections: 50,
+  // Secure by default; opt out with SQL_ENCRYPT=false
+  options: { encrypt: true, trustServerCertificate: false },
+  maxRetries: 3,
+  initialRetryDelay: 1000,
+  // maxRetryDelay defaults to ten times initialRetryDelay
+  allowedDatabases: [],
+  authentication: { type: 'default' },
+  profiles: {},
+  schemaCacheTTL: 300000, // 5 minutes
+  maxRows: 1000,
+  maxEstimatedCost: 0,
+  maxEstimatedRows: 0,
+  policyFile: '',
+  allowUnparsedQueries: false,
+  enableWrites: false,
+  maxSessions: 5,
+  sessionIdleTimeoutMs: 600000, // 10 minutes
+  logLevel: 'info',
+};
+
+// Settings applyReloadedSqlConfig() applies; the others keep their startup values until a restart
+const RELOADABLE_SETTINGS = [
+  'allowedDatabases', 'maxRows', 'maxEstimatedCost', 'maxEstimatedRows', 'policyFile',
+  'allowUnparsedQueries', 'schemaCacheTTL', 'maxSessions', 'sessionIdleTimeoutMs', 'logLevel',
+] as const;
+
+type EnvType = 'string' | 'number' | 'boolean' | 'list';
+
+// Environment variables of the connection settings, relative to SQL_ or a profile's prefix
+const SERVER_ENV_VARIABLES: Array<[string, string, EnvType]> = [
+  ['USER', 'user', 'string'],
+  ['PASSWORD', 'password', 'string'],
+  ['SERVER', 'server', 'string'],
+  ['DATABASE', 'database', 'string'],
+  ['PORT', 'port', 'number'],
+  ['CONNECTION_TIMEOUT', 'connectionTimeout', 'number'],
+  ['REQUEST_TIMEOUT', 'requestTimeout', 'number'],
+  ['POOL_MAX', 'pool.max', 'number'],
+  ['POOL_MIN', 'pool.min', 'number'],
+  ['POOL_IDLE_TIMEOUT', 'pool.idleTimeoutMillis', 'number'],
+  ['DB_POOL_MAX', 'databasePools.max', 'number'],
+  ['DB_POOL_CONNECTIONS', 'databasePools.connections', 'number'],
+  ['DB_POOL_IDLE_TIMEOUT', 'databasePools.idleTimeoutMs', 'number'],
+  ['MAX_CONNECTIONS', 'maxConnections', 'number'],
+  ['ENCRYPT', 'options.encrypt', 'boolean'],
+  ['TRUST_SERVER_CERT', 'options.trustServerCertificate', 'boolean'],
+  ['TRUST_SERVER_CERTIFICATE', 'options.trustServerCertificate', 'boolean'],
+  ['RETRY_MAX_RETRIES', 'maxRetries', 'number'],
+  ['RETRY_DELAY_MS', 'initialRetryDelay', 'number'],
+  ['RETRY_MAX_DELAY_MS', 'maxRetryDelay', 'number'],
+  ['ALLOWED_DATABASES', 'allowedDatabases', 'list'],
+  ['AUTH_TYPE', 'authentication.type', 'string'],
+  ['AUTH_DOMAIN', 'authentication.domain', 'string'],
+  ['AUTH_CLIENT_ID', 'authentication.clientId', 'string'],
+  ['AUTH_CLIENT_SECRET', 'authentication.clientSecret', 'string'],
+  ['AUTH_TENANT_ID', 'authentication.tenantId', 'string'],
+  ['AUTH_TOKEN_FILE', 'authentication.tokenFile', 'string'],
+  ['AUTH_TOKEN_COMMAND', 'authentication.tokenCommand', 'string'],
+  ['AUTH_TOKEN_REFRESH_MARGIN_MS', 'authentication.refreshMarginMs', 'number'],
+];
+
+// Variables whose values are not repeated in error messages
+const SECRET_ENV_VARIABLES: ReadonlySet<string> = new Set(['PASSWORD', 'AUTH_CLIENT_SECRET']);
+
+const GLOBAL_ENV_VARIABLES: Array<[string, string, EnvType]> = [
+  ['CACHE_TTL_MS', 'schemaCacheTTL', 'number'],
+  ['SQL_MAX_ROWS', 'maxRows', 'number'],
+  ['SQL_MAX_ESTIMATED_COST', 'maxEstimatedCost', 'number'],
+  ['SQL_MAX_ESTIMATED_ROWS', 'maxEstimatedRows', 'number'],
+  ['SQL_POLICY_FILE', 'policyFile', 'string'],
+  ['SQL_ALLOW_UNPARSED_QUERIES', 'allowUnparsedQueries', 'boolean'],
+  ['SQL_ENABLE_WRITES', 'enableWrites', 'boolean'],
+  ['SQL_MAX_SESSIONS', 'maxSessions', 'number'],
+  ['SQL_SESSION_IDLE_TIMEOUT_MS', 'sessionIdleTimeoutMs', 'number'],
+  ['LOG_LEVEL', 'logLevel', 'string'],
+];
+
+type RawConfig = Record<string, unknown>;
+
+const isPlainObject = (value: unknown): value is RawConfig =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Merge `override` into `base`; nested objects are merged, everything else replaced
+function mergeConfig(base: RawConfig, override: RawConfig): RawConfig {
+  const merged: RawConfig = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? mergeConfig(merged[key] as RawConfig, value) : value;
+  }
+  return merged;
+}
+
+function hasPath(source: unknown, path: Array<string | number>): boolean {
+  return path.every(key => {
+    if (!isPlainObject(source) && !Array.isArray(source)) return false;
+    if (!(key in source)) return false;
+    source = (source as RawConfig)[key];
+    return true;
+  });
+}
+
+function setPath(target: RawConfig, path: string[], value: unknown): void {
+  const [key, ...rest] = path;
+  if (rest.length === 0) {
+    target[key] = value;
+    return;
+  }
+  if (!isPlainObject(target[key])) target[key] = {};
+  setPath(target[key] as RawConfig, rest, value);
+}
+
+// Environment values are converted when they are well-formed and otherwise left as strings,
+// so validation reports them against the variable they came from
+function convertEnvValue(raw: string, type: EnvType): unknown {
+  switch (type) {
+    case 'number': {
+      const value = Number(raw.trim());
+      return raw.trim() !== '' && Number.isFinite(value) ? value : raw;
+    }
+    case 'boolean':
+      return raw.trim().toLowerCase() === 'true' ? true : raw.trim().toLowerCase() === 'false' ? false : raw;
+    case 'list':
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Settings given by environment variables, as a partial config, with the variable behind each
+ * setting path recorded in `sources`. Empty variables count as unset.
+ */
+function readEnvOverrides(profileNames: string[], sources: Map<string, string>): RawConfig {
+  const overrides: RawConfig = {};
+  const apply = (variables: Array<[string, string, EnvType]>, prefix: string, basePath: string[]) => {
+    for (const [suffix, key, type] of variables) {
+      const name = `${prefix}${suffix}`;
+      const raw = process.env[name];
+      if (raw === undefined || raw === '') continue;
+      const path = [...basePath, ...key.split('.')];
+      setPath(overrides, path, convertEnvValue(raw, type));
+      sources.set(path.join('.'), `from ${name}="${SECRET_ENV_VARIABLES.has(suffix) ? '***' : raw}"`);
+    }
+  };
+  apply(SERVER_ENV_VARIABLES, 'SQL_', []);
+  apply(GLOBAL_ENV_VARIABLES, '', []);
+  for (const name of profileNames) {
+    setPath(overrides, ['profiles', name], (overrides.profiles as RawConfig | undefined)?.[name] ?? {});
+    apply(SERVER_ENV_VARIABLES, profileEnvPrefix(name), ['profiles', name]);
+  }
+  return overrides;
+}
+
+function readConfigFile(path: string): RawConfig {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new MssqlMcpError(
+      `Could not read config file '${path}': ${err instanceof Error ? err.message : String(err)}`,
+      ErrorType.VALIDATION_ERROR,
+      err instanceof Error ? err : undefined,
+      { configFile: path }
+    );
+  }
+
+  const extension = extname(path).toLowerCase();
+  let parsed: unknown;
+  try {
+    if (extension === '.json') {
+      parsed = JSON.parse(text);
+    } else if (extension === '.yaml' || extension === '.yml') {
+      parsed = parseYaml(text);
+    } else {
+      throw new Error('the file name must end in .json, .yaml or .yml');
+    }
+  } catch (err) {
+    throw new MssqlMcpError(
+      `Invalid config file '${path}': ${err instanceof Error ? err.message : String(err)}`,
+      ErrorType.VALIDATION_ERROR,
+      err instanceof Error ? err : undefined,
+      { configFile: path }
+    );
+  }
+  // An empty YAML file is no settings
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new MssqlMcpError(`Invalid config file '${path}': the top level must be an object of settings`, ErrorType.VALIDATION_ERROR, undefined, { configFile: path });
+  }
+  return parsed;
+}
+
+// Environment variable that sets a setting path, as a hint for settings that were never given
+function envVariableFor(path: string[]): string | null {
+  const [profilesKey, profileName, ...profilePath] = path;
+  const [prefix, key, variables] = profilesKey === 'profiles' && profileName
+    ? [profileEnvPrefix(profileName), profilePath.join('.'), SERVER_ENV_VARIABLES]
+    : ['', path.join('.'), [...SERVER_ENV_VARIABLES.map(([suffix, k, type]): [string, string, EnvType] => [`SQL_${suffix}`, k, type]), ...GLOBAL_ENV_VARIABLES]];
+  const variable = variables.find(([, k]) => k === key);
+  return variable ? `${prefix}${variable[0]}` : null;
+}
+
+// Settings a profile never inherits from the top-level server, with their values when unset
+const PROFILE_OWN_SETTINGS: RawConfig = {
+  user: '',
+  password: '',
+  server: '',
+  database: DEFAULTS.database,
+  allowedDatabases: [],
+  authentication: { type: 'default' },
+};
+
+/**
+ * Fill in a profile's unset settings: credentials, server and allowedDatabases stay empty (and
+ * database is master, authentication default), every other setting is inherited from the
+ * top-level server settings.
+ */
+function resolveProfile(profile: unknown, top: RawConfig): unknown {
+  if (!isPlainObject(profile)) {
+    return profile;
+  }
+  const inherited: RawConfig = { ...PROFILE_OWN_SETTINGS };
+  for (const [, key] of SERVER_ENV_VARIABLES) {
+    const field = key.split('.')[0];
+    if (!(field in inherited) && field in top) inherited[field] = top[field];
+  }
+  return mergeConfig(inherited, profile);
+}
+
+/**
+ * Read, merge and validate the configuration: defaults, then the SQL_CONFIG_FILE file, then
+ * environment variables. Throws VALIDATION_ERROR listing every invalid setting with the file or
+ * environment variable it came from.
+ */
+export function loadSqlConfig(): SqlConfigSettings {
+  const configFile = process.env.SQL_CONFIG_FILE || '';
+  const fileConfig = configFile ? readConfigFile(configFile) : {};
+
+  const sources = new Map<string, string>();
+  const profileNames = [
+    ...Object.keys(isPlainObject(fileConfig.profiles) ? fileConfig.profiles : {}),
+    ...(process.env.SQL_PROFILES || '').split(',').map(name => name.trim()).filter(Boolean),
+  ];
+  const envConfig = readEnvOverrides([...new Set(profileNames)], sources);
+
+  const merged = mergeConfig(mergeConfig(DEFAULTS, fileConfig), envConfig);
+  if (merged.maxRetryDelay === undefined && typeof merged.initialRetryDelay === 'number') {
+    merged.maxRetryDelay = merged.initialRetryDelay * 10;
+  }
+  const ownProfiles = merged.profiles;
+  if (isPlainObject(ownProfiles)) {
+    merged.profiles = Object.fromEntries(Object.entries(ownProfiles).map(([name, profile]) => [name, resolveProfile(profile, merged)]));
+  }
+
+  const parsed = sqlConfigSchema.safeParse(merged);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      // A bad value a profile inherits is reported once, for the top-level setting
+      .filter(issue => !(issue.path[0] === 'profiles' && issue.path.length > 2 && !hasPath(ownProfiles, issue.path.slice(1)) && !(String(issue.path[2]) in PROFILE_OWN_SETTINGS)))
+      .map(issue => {
+        const path = issue.path.join('.') || '(root)';
+        const variable = envVariableFor(issue.path.map(String));
+        const source = sources.get(path)
+          ?? (configFile && hasPath(fileConfig, issue.path) ? `in ${configFile}` : variable ? `not set; use ${variable}${configFile ? ` or set it in ${configFile}` : ''}` : null);
+        return source ? `${path}: ${issue.message} (${source})` : `${path}: ${issue.message}`;
+      });
+    throw new MssqlMcpError(
+      `Invalid configuration: ${issues.join('; ')}`,
+      ErrorType.VALIDATION_ERROR,
+      undefined,
+      { configFile: configFile || undefined, issues }
+    );
+  }
+  return parsed.data;
+}
+
+function loadSqlConfigOrExit(): SqlConfigSettings {
+  try {
+    return loadSqlConfig();
+  } catch (err) {
+    // The logger is configured from these settings, so report straight to stderr
+    const issues: string[] = err instanceof MssqlMcpError && Array.isArray(err.details?.issues) ? err.details.issues : [];
+    process.stderr.write(issues.length > 0
+      ? `Invalid configuration:\n${issues.map(issue => `  - ${issue}\n`).join('')}`
+      : `${err instanceof Error ? err.message : String(err)}\n`);
+    process.exit(1);
+  }
+}
+
+// Current configuration; replaced (as a whole) by applyReloadedSqlConfig()
+export let sqlConfig: SqlConfigSettings = loadSqlConfigOrExit();
+
+/**
+ * Apply the reloadable settings of a newly loaded configuration (from loadSqlConfig()) to
+ * `sqlConfig`: the RELOADABLE_SETTINGS and the allowedDatabases of existing profiles. Returns the
+ * reloadable settings that changed, and the other settings that changed but need a restart.
+ */
+export function applyReloadedSqlConfig(next: SqlConfigSettings): { changed: string[]; restartRequired: string[] } {
+  const current = sqlConfig;
+  const differs = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b);
+  const changed: string[] = RELOADABLE_SETTINGS.filter(key => differs(current[key], next[key]));
+  const restartRequired: string[] = (Object.keys(next) as Array<keyof SqlConfigSettings>)
+    .filter(key => key !== 'profiles' && !(RELOADABLE_SETTINGS as readonly string[]).includes(key) && differs(current[key], next[key]));
+
+  const profiles: Record<string, ServerSettings> = {};
+  for (const [name, profile] of Object.entries(current.profiles)) {
+    const reloaded = next.profiles[name];
+    if (!reloaded) {
+      restartRequired.push(`profiles.${name}`);
+      profiles[name] = profile;
+      continue;
+    }
+    if (differs({ ...profile, allowedDatabases: [] }, { ...reloaded, allowedDatabases: [] })) {
+      restartRequired.push(`profiles.${name}`);
+    }
+    if (differs(profile.allowedDatabases, reloaded.allowedDatabases)) {
+      changed.push(`profiles.${name}.allowedDatabases`);
+    }
+    profiles[name] = { ...profile, allowedDatabases: reloaded.allowedDatabases };
+  }
+  restartRequired.push(...Object.keys(next.profiles).filter(name => !current.profiles[name]).map(name => `profiles.${name}`));
+
+  const reloadable = Object.fromEntries(RELOADABLE_SETTINGS.map(key => [key, next[key]]));
+  sqlConfig = { ...current, ...reloadable, profiles };
+  return { changed, restartRequired };
+}
@@ -8,7 +8,7 @@
 SQL_SERVER=${1:-${SQL_SERVER:-localhost}}
 SQL_PASSWORD=${2:-${SQL_PASSWORD:-yourStrong(!)Password}}
 
-# Other settings with defaults - aligned with config.js
+# Other settings with defaults - aligned with config.ts
 SQL_PORT=${SQL_PORT:-1433}
 SQL_USER=${SQL_USER:-sa}
 SQL_DATABASE=${SQL_DATABASE:-master}
@@ -8,7 +8,9 @@ export enum ErrorType {
   VALIDATION_ERROR = "ValidationError",
   PERMISSION_ERROR = "PermissionError",
   DATABASE_ERROR = "DatabaseError",
-  SQL_PARSER_ERROR = "SqlParserError"
+  SQL_PARSER_ERROR = "SqlParserError",
+  QUERY_COST_EXCEEDED = "QueryCostExceeded",
+  SESSION_ERROR = "SessionError"
 }
 
 // More specific type for details, can be expanded as needed
@@ -0,0 +1,132 @@
+// Masking of sensitive values in result sets, driven by the `masking` section of the access policy.
+// Result columns carry no source table, so column rules are matched against the column's own
+// name and, where the query makes it clear, the table column it reads.
+import { createHash } from 'crypto';
+import { AccessPolicy, MaskingRule, globToRegExp, matchesObjectPattern, splitColumnPattern } from './policy.js';
+import { ColumnSource, TableReference } from './queryRewriter.js';
+
+export type MaskingStrategy = MaskingRule['strategy'];
+
+// What is known about where a recordset's values come from
+export interface MaskingContext {
+  database: string;
+  // Tables the statement reads; null when unknown (stored procedures), so any table pattern matches
+  tables: TableReference[] | null;
+  // Output column (lowercased, '' when unnamed) to the table columns its expression reads
+  columnSources?: Map<string, ColumnSource[]>;
+}
+
+// Visible characters kept by the partial strategy
+const PARTIAL_REVEAL_LENGTH = 4;
+const REDACTED = '[REDACTED]';
+
+// Whether the policy masks anything, so results need scanning at all
+export function hasMaskingRules(policy: AccessPolicy): boolean {
+  return (policy.masking?.rules.length ?? 0) > 0;
+}
+
+function valueToText(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return value.toString('hex');
+  return String(value);
+}
+
+/**
+ * Apply a strategy to one value. NULLs stay NULL so masked columns still show which rows have
+ * data. `hash` is deterministic for a given salt, so masked values can still be joined,
+ * grouped and compared for equality.
+ */
+export function applyMaskingStrategy(value: unknown, strategy: MaskingStrategy, salt = ''): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  const text = valueToText(value);
+  switch (strategy) {
+    case 'redact':
+      return REDACTED;
+    case 'partial':
+      return text.length <= PARTIAL_REVEAL_LENGTH
+        ? '*'.repeat(text.length)
+        : '*'.repeat(text.length - PARTIAL_REVEAL_LENGTH) + text.slice(-PARTIAL_REVEAL_LENGTH);
+    case 'hash':
+      return `hash:${createHash('sha256').update(`${salt}\u0000${text}`).digest('hex').substring(0, 16)}`;
+  }
+}
+
+// Whether a column rule covers a table column: matched against its table when known, otherwise
+// against any table the statement reads
+function sourceRuleMatches(rule: MaskingRule, context: MaskingContext, source: ColumnSource): boolean {
+  if (!rule.column || !globToRegExp(rule.database ?? '*').test(context.database)) {
+    return false;
+  }
+  const { tablePattern, columnPattern } = splitColumnPattern(rule.column);
+  if (!globToRegExp(columnPattern).test(source.column)) return false;
+  if (tablePattern === '*') return true;
+  if (source.table) return matchesObjectPattern(tablePattern, source.table.schema ?? 'dbo', source.table.table);
+  return context.tables === null || context.tables.some(t => matchesObjectPattern(tablePattern, t.schema ?? 'dbo', t.table));
+}
+
+function columnRuleMatches(rule: MaskingRule, context: MaskingContext, column: string): boolean {
+  // Sources traced to their table are matched against that table only; otherwise the output name
+  // also counts, against any table the statement reads
+  const sources = context.columnSources?.get(column.toLowerCase()) ?? [];
+  const candidates: ColumnSource[] = sources.length > 0 && sources.every(source => source.table) ? sources : [{ column }, ...sources];
+  return candidates.some(candidate => sourceRuleMatches(rule, context, candidate));
+}
+
+/**
+ * First column rule masking a table column a statement reads, or null when none does.
+ * Used to stop statements that would copy masked values somewhere they are not masked.
+ */
+export function findSourceMaskingRule(policy: AccessPolicy, context: MaskingContext, source: ColumnSource): MaskingRule | null {
+  return (policy.masking?.rules ?? []).find(rule => sourceRuleMatches(rule, context, source)) ?? null;
+}
+
+/**
+ * Per-recordset masker: resolves the column rule for each column once, then masks cells.
+ * The first matching column rule masks the whole value; in columns without one, value-pattern
+ * rules mask the matching parts of string values, applied in policy order.
+ */
+export function createRecordsetMasker(policy: AccessPolicy, context: MaskingContext) {
+  const rules = policy.masking?.rules ?? [];
+  const salt = policy.masking?.hashSalt ?? '';
+  const valueRules = rules
+    .filter(rule => rule.valuePattern && globToRegExp(rule.database ?? '*').test(context.database))
+    .map(rule => ({ pattern: new RegExp(rule.valuePattern!, 'g'), strategy: rule.strategy }));
+  const columnRules = new Map<string, MaskingRule | null>();
+
+  const columnRuleFor = (column: string): MaskingRule | null => {
+    const key = column.toLowerCase();
+    if (!columnRules.has(key)) {
+      columnRules.set(key, rules.find(rule => columnRuleMatches(rule, context, column)) ?? null);
+    }
+    return columnRules.get(key)!;
+  };
+
+  const maskCell = (column: string, value: unknown): unknown => {
+    const rule = columnRuleFor(column);
+    if (rule) {
+      return applyMaskingStrategy(value, rule.strategy, salt);
+    }
+    if (typeof value !== 'string') {
+      return value;
+    }
+    return valueRules.reduce(
+      (text, { pattern, strategy }) => text.replace(pattern, match => String(applyMaskingStrategy(match, strategy, salt))),
+      value
+    );
+  };
+
+  return {
+    maskCell,
+    // Mask rows in place
+    maskRows(columns: string[], rows: any[][]): void {
+      if (rules.length === 0) return;
+      for (const row of rows) {
+        for (let i = 0; i < row.length; i++) {
+          row[i] = maskCell(columns[i] ?? '', row[i]);
+        }
+      }
+    },
+  };
+}
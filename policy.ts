@@ -0,0 +1,292 @@
+// Access policy file: which stored procedures may be executed, which tables and columns
+// queries may touch, which rows they see, and which result values are masked, per database.
+// The file is JSON, loaded once at startup from SQL_POLICY_FILE.
+import { readFileSync } from 'fs';
+import { z } from 'zod';
+import { MssqlMcpError, ErrorType } from './errors.js';
+import { parseFilterPredicate, predicateParameterNames } from './queryRewriter.js';
+import { parseSqlTypeSpec } from './sqlTypeSpec.js';
+
+const policyActionSchema = z.enum(['allow', 'deny']);
+
+const procedureRulesSchema = z.object({
+  default: policyActionSchema.optional(),
+  allow: z.array(z.string().min(1)).optional(),
+  deny: z.array(z.string().min(1)).optional(),
+}).strict();
+
+const tableRulesSchema = z.object({
+  // schema.table globs that queries may not reference and schema resources do not show
+  deny: z.array(z.string().min(1)).optional(),
+  // schema.table.column globs, same effect for individual columns
+  denyColumns: z.array(z.string().min(1)).optional(),
+}).strict();
+
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const maskingRuleSchema = z.object({
+  // Database name glob; every database when omitted
+  database: z.string().min(1).optional(),
+  // schema.table.column glob (table.column and bare column names allowed)
+  column: z.string().min(1).optional(),
+  // Regular expression; matching parts of string values are masked in any column
+  valuePattern: z.string().min(1).refine(isValidRegExp, 'must be a valid regular expression').optional(),
+  strategy: z.enum(['redact', 'partial', 'hash']),
+}).strict().refine(rule => !!rule.column !== !!rule.valuePattern, 'a masking rule needs exactly one of column or valuePattern');
+
+const rowFilterSchema = z.object({
+  // schema.table glob of the tables and views to filter
+  table: z.string().min(1),
+  // Boolean T-SQL expression over the table's columns; @name refers to rowFilters.parameters
+  predicate: z.string().min(1),
+}).strict().superRefine((rule, ctx) => {
+  try {
+    parseFilterPredicate(rule.predicate);
+  } catch (err) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['predicate'], message: `not a valid predicate: ${err instanceof Error ? err.message : String(err)}` });
+  }
+});
+
+const parameterTypeSchema = z.string().refine(type => !('error' in parseSqlTypeSpec(type)), 'must be a SQL type such as int or nvarchar(50)');
+
+// Filter parameter values are fixed in the file or read from an environment variable at load time
+const rowFilterParameterSchema = z.union([
+  z.object({ value: z.union([z.string(), z.number(), z.boolean()]), type: parameterTypeSchema.optional() }).strict(),
+  z.object({ env: z.string().min(1), type: parameterTypeSchema.optional() }).strict().transform((param, ctx) => {
+    const value = process.env[param.env];
+    if (value === undefined || value === '') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `environment variable ${param.env} is not set` });
+      return z.NEVER;
+    }
+    return { value, type: param.type };
+  }),
+]);
+
+const rowFiltersSchema = z.object({
+  parameters: z.record(rowFilterParameterSchema).optional(),
+  // Keyed by database name (case-insensitive), or "*" for every database
+  databases: z.record(z.array(rowFilterSchema)).optional(),
+}).strict().superRefine((section, ctx) => {
+  const declared = Object.keys(section.parameters ?? {});
+  for (const name of declared) {
+    if (!/^[A-Za-z][A-Za-z0-9_]*$/.test(name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['parameters', name], message: 'parameter names use letters, digits and underscores, starting with a letter' });
+    }
+  }
+  for (const [db, rules] of Object.entries(section.databases ?? {})) {
+    rules.forEach((rule, index) => {
+      let used: string[];
+      try {
+        used = predicateParameterNames(parseFilterPredicate(rule.predicate));
+      } catch {
+        return;
+      }
+      for (const name of used.filter(n => !declared.some(d => d.toLowerCase() === n.toLowerCase()))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['databases', db, index, 'predicate'], message: `@${name} is not declared in rowFilters.parameters` });
+      }
+    });
+  }
+});
+
+const accessPolicySchema = z.object({
+  procedures: z.object({
+    // Applies when no rule matches; defaults to allow
+    default: policyActionSchema.optional(),
+    // Keyed by database name (case-insensitive), or "*" for every database
+    databases: z.record(procedureRulesSchema).optional(),
+  }).strict().optional(),
+  tables: z.object({
+    databases: z.record(tableRulesSchema).optional(),
+  }).strict().optional(),
+  rowFilters: rowFiltersSchema.optional(),
+  masking: z.object({
+    // Mixed into hashed values so they cannot be reversed by hashing guesses
+    hashSalt: z.string().optional(),
+    rules: z.array(maskingRuleSchema),
+  }).strict().optional(),
+}).strict();
+
+export type PolicyAction = z.infer<typeof policyActionSchema>;
+export type AccessPolicy = z.infer<typeof accessPolicySchema>;
+export type MaskingRule = z.infer<typeof maskingRuleSchema>;
+export type RowFilterParameter = z.infer<typeof rowFilterParameterSchema>;
+
+export interface RowFilterMatch {
+  predicate: string;
+  // Path of the rule, e.g. rowFilters.databases.*[0] ("*.*")
+  rule: string;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  // Path of the rule that decided, e.g. procedures.databases.Sales.deny[0] ("dbo.usp_Delete*")
+  rule: string;
+}
+
+/**
+ * Compile a `*`/`?` glob into a case-insensitive, anchored regular expression.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${pattern}$`, 'i');
+}
+
+/**
+ * Match `schema.name` against an object pattern. A pattern without a schema part
+ * matches the name in any schema; brackets around either part are ignored.
+ */
+export function matchesObjectPattern(pattern: string, schema: string, name: string): boolean {
+  const parts = pattern.replace(/[\[\]]/g, '').split('.');
+  const namePattern = parts.pop()!;
+  const schemaPattern = parts.pop() ?? '*';
+  return globToRegExp(schemaPattern).test(schema) && globToRegExp(namePattern).test(name);
+}
+
+/**
+ * Split a `schema.table.column` pattern into its table part (`schema.table`, `table` or `*`)
+ * and column part. A bare column pattern applies to every table.
+ */
+export function splitColumnPattern(pattern: string): { tablePattern: string; columnPattern: string } {
+  const parts = pattern.replace(/[\[\]]/g, '').split('.');
+  const columnPattern = parts.pop()!;
+  return { tablePattern: parts.length ? parts.join('.') : '*', columnPattern };
+}
+
+/**
+ * Rule entries of a section that apply to a database: its own entry first, then "*".
+ */
+function entriesFor<T>(databases: Record<string, T> | undefined, database: string): Array<[string, T]> {
+  return Object.entries(databases ?? {})
+    .filter(([db]) => db === '*' || db.toLowerCase() === database.toLowerCase())
+    .sort(([a], [b]) => Number(a === '*') - Number(b === '*'));
+}
+
+/**
+ * Read and validate a policy file. Throws VALIDATION_ERROR describing the first problems
+ * found, so a broken policy stops the server at startup instead of silently allowing everything.
+ */
+export function loadAccessPolicy(path: string): AccessPolicy {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (err) {
+    throw new MssqlMcpError(
+      `Could not read policy file '${path}': ${err instanceof Error ? err.message : String(err)}`,
+      ErrorType.VALIDATION_ERROR,
+      err instanceof Error ? err : undefined,
+      { policyFile: path }
+    );
+  }
+
+  const parsed = accessPolicySchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new MssqlMcpError(
+      `Invalid policy file '${path}': ${issues.join('; ')}`,
+      ErrorType.VALIDATION_ERROR,
+      undefined,
+      { policyFile: path, issues }
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Decide whether a procedure may run. Rules for the database itself and for "*" are
+ * combined; a matching deny rule always wins, then a matching allow rule, then the
+ * database's default, then the policy-wide default (allow if unset).
+ */
+export function evaluateProcedurePolicy(policy: AccessPolicy, database: string, schema: string, name: string): PolicyDecision {
+  const section = policy.procedures;
+  if (!section) {
+    return { allowed: true, rule: 'no procedure policy' };
+  }
+
+  const entries = entriesFor(section.databases, database);
+
+  for (const action of ['deny', 'allow'] as const) {
+    for (const [db, rules] of entries) {
+      const index = (rules[action] ?? []).findIndex(pattern => matchesObjectPattern(pattern, schema, name));
+      if (index >= 0) {
+        return { allowed: action === 'allow', rule: `procedures.databases.${db}.${action}[${index}] ("${rules[action]![index]}")` };
+      }
+    }
+  }
+
+  for (const [db, rules] of entries) {
+    if (rules.default) {
+      return { allowed: rules.default === 'allow', rule: `procedures.databases.${db}.default (${rules.default})` };
+    }
+  }
+  const fallback = section.default ?? 'allow';
+  return { allowed: fallback === 'allow', rule: `procedures.default (${fallback})` };
+}
+
+// Whether the policy restricts any tables or columns, so queries need checking at all
+export function hasTableRules(policy: AccessPolicy): boolean {
+  return Object.keys(policy.tables?.databases ?? {}).length > 0;
+}
+
+/**
+ * Rule denying a table or view, as a path like tables.databases.Sales.deny[0] ("hr.*"), or null.
+ */
+export function findDeniedTableRule(policy: AccessPolicy, database: string, schema: string, table: string): string | null {
+  for (const [db, rules] of entriesFor(policy.tables?.databases, database)) {
+    const index = (rules.deny ?? []).findIndex(pattern => matchesObjectPattern(pattern, schema, table));
+    if (index >= 0) {
+      return `tables.databases.${db}.deny[${index}] ("${rules.deny![index]}")`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether any column rule could apply to the table, i.e. whether its columns need checking at all.
+ */
+export function hasColumnRulesFor(policy: AccessPolicy, database: string, schema: string, table: string): boolean {
+  return entriesFor(policy.tables?.databases, database).some(([, rules]) =>
+    (rules.denyColumns ?? []).some(pattern => matchesObjectPattern(splitColumnPattern(pattern).tablePattern, schema, table)));
+}
+
+/**
+ * Rule denying a column, as a path like tables.databases.*.denyColumns[1] ("*.*.Email"), or null.
+ */
+export function findDeniedColumnRule(policy: AccessPolicy, database: string, schema: string, table: string, column: string): string | null {
+  for (const [db, rules] of entriesFor(policy.tables?.databases, database)) {
+    const index = (rules.denyColumns ?? []).findIndex(pattern => {
+      const { tablePattern, columnPattern } = splitColumnPattern(pattern);
+      return matchesObjectPattern(tablePattern, schema, table) && globToRegExp(columnPattern).test(column);
+    });
+    if (index >= 0) {
+      return `tables.databases.${db}.denyColumns[${index}] ("${rules.denyColumns![index]}")`;
+    }
+  }
+  return null;
+}
+
+// Whether the policy filters any rows, so queries need rewriting at all
+export function hasRowFilters(policy: AccessPolicy): boolean {
+  return Object.values(policy.rowFilters?.databases ?? {}).some(rules => rules.length > 0);
+}
+
+/**
+ * Every row filter that applies to a table or view; all of them must hold for a row to be visible.
+ */
+export function findRowFilters(policy: AccessPolicy, database: string, schema: string, table: string): RowFilterMatch[] {
+  const matches: RowFilterMatch[] = [];
+  for (const [db, rules] of entriesFor(policy.rowFilters?.databases, database)) {
+    rules.forEach((rule, index) => {
+      if (matchesObjectPattern(rule.table, schema, table)) {
+        matches.push({ predicate: rule.predicate, rule: `rowFilters.databases.${db}[${index}] ("${rule.table}")` });
+      }
+    });
+  }
+  return matches;
+}
@@ -0,0 +1,126 @@
+// Parameter defaults of T-SQL stored procedures.
+// sys.parameters only records default values for CLR procedures, so for T-SQL procedures
+// they are read from the CREATE PROCEDURE header in the module definition instead.
+
+/**
+ * Remove `--` and `/* *\/` comments while leaving string literals and bracketed identifiers intact.
+ */
+function stripComments(sqlText: string): string {
+  let result = '';
+  let i = 0;
+  while (i < sqlText.length) {
+    const ch = sqlText[i];
+    const next = sqlText[i + 1];
+    if (ch === "'" || ch === '[' || ch === '"') {
+      const close = ch === '[' ? ']' : ch;
+      let j = i + 1;
+      while (j < sqlText.length) {
+        if (sqlText[j] === close) {
+          if (sqlText[j + 1] === close) { j += 2; continue; }
+          break;
+        }
+        j++;
+      }
+      result += sqlText.slice(i, j + 1);
+      i = j + 1;
+    } else if (ch === '-' && next === '-') {
+      while (i < sqlText.length && sqlText[i] !== '\n') i++;
+    } else if (ch === '/' && next === '*') {
+      // Block comments nest in T-SQL
+      let depth = 1;
+      i += 2;
+      while (i < sqlText.length && depth > 0) {
+        if (sqlText[i] === '/' && sqlText[i + 1] === '*') { depth++; i += 2; }
+        else if (sqlText[i] === '*' && sqlText[i + 1] === '/') { depth--; i += 2; }
+        else i++;
+      }
+      result += ' ';
+    } else {
+      result += ch;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Split text on a separator found outside parentheses, string literals and bracketed identifiers.
+ * With `stopWords`, scanning ends at the first top-level occurrence of one of those words and
+ * only the text before it is returned as the last segment. A word right after a parameter name
+ * does not stop it, as that is the optional AS of `@name AS type`.
+ */
+function splitTopLevel(text: string, separator: string, stopWords?: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "'" || ch === '[' || ch === '"') {
+      const close = ch === '[' ? ']' : ch;
+      i++;
+      while (i < text.length) {
+        if (text[i] === close) {
+          if (text[i + 1] === close) { i += 2; continue; }
+          break;
+        }
+        i++;
+      }
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (depth === 0 && ch === separator) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    } else if (depth === 0 && stopWords && /[A-Za-z]/.test(ch) && (i === 0 || /[\s)]/.test(text[i - 1]))) {
+      const word = /^[A-Za-z]+/.exec(text.slice(i))![0];
+      if (stopWords.test(word) && !/@[\w@#$]+\s+$/.test(text.slice(start, i))) {
+        parts.push(text.slice(start, i));
+        return parts;
+      }
+      i += word.length - 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Extract parameter defaults from a procedure's CREATE/ALTER PROCEDURE text.
+ * Returns a map of lowercased parameter name (with `@`) to the default expression as written,
+ * e.g. `NULL`, `0` or `N'active'`. Parameters without a default are absent from the map.
+ * Returns null when the header or one of its parameter declarations cannot be read, as the
+ * defaults are then unknown.
+ */
+export function parseProcedureParameterDefaults(definition: string): Map<string, string> | null {
+  const defaults = new Map<string, string>();
+  const text = stripComments(definition);
+
+  const header = /\b(?:create|alter)\s+(?:or\s+alter\s+)?proc(?:edure)?\s+(?:(?:\[[^\]]*(?:\]\][^\]]*)*\]|"[^"]*"|[\w@#$]+)\s*\.\s*)*(?:\[[^\]]*(?:\]\][^\]]*)*\]|"[^"]*"|[\w@#$]+)(?:\s*;\s*\d+)?/i.exec(text);
+  if (!header) {
+    return null;
+  }
+
+  const rest = text.slice(header.index + header[0].length);
+  let parameterList = splitTopLevel(rest, '\u0000', /^(as|with|for)$/i)[0].trim();
+  if (parameterList.startsWith('(') && parameterList.endsWith(')')) {
+    parameterList = parameterList.slice(1, -1);
+  }
+
+  if (!parameterList) {
+    return defaults;
+  }
+  for (const declaration of splitTopLevel(parameterList, ',')) {
+    const match = /^\s*(@[\w@#$]+)\s+(?:as\s+)?([\s\S]*)$/i.exec(declaration);
+    if (!match) return null;
+    const [typePart, ...defaultParts] = splitTopLevel(match[2], '=');
+    if (typePart === undefined || defaultParts.length === 0) continue;
+    const defaultValue = defaultParts.join('=')
+      .replace(/\s+\b(out|output|readonly)\b(\s+\b(out|output|readonly)\b)*\s*$/i, '')
+      .trim();
+    if (defaultValue) {
+      defaults.set(match[1].toLowerCase(), defaultValue);
+    }
+  }
+  return defaults;
+}
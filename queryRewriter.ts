@@ -0,0 +1,526 @@
+import nodeParser from 'node-sql-parser';
+
+// node-sql-parser's published types describe the MySQL AST; the T-SQL dialect
+// uses different shapes for TOP and OFFSET/FETCH, so nodes are handled loosely here.
+export type SqlAst = Record<string, any>;
+
+export interface TableReference {
+  database?: string;
+  schema?: string;
+  table: string;
+  // Name the table is exposed as in the query (alias, or bare table name)
+  exposedName: string;
+}
+
+const PARSER_OPTIONS = { database: 'transactsql' };
+
+/**
+ * Serialize an AST back into T-SQL.
+ * node-sql-parser brackets `@name` variables as if they were column identifiers,
+ * so those are unwrapped again to keep parameter placeholders intact.
+ */
+export function toSql(ast: SqlAst | SqlAst[]): string {
+  const parser = new nodeParser.Parser();
+  return parser.sqlify(ast as any, PARSER_OPTIONS).replace(/\[(@[A-Za-z0-9_#$@]+)\]/g, '$1');
+}
+
+/**
+ * Resolve a FROM entry into its database/schema/table parts.
+ * The T-SQL grammar stores two-part names as `db.table`, so a missing `schema`
+ * means `db` actually holds the schema. Returns null for derived tables and joins on expressions.
+ */
+export function resolveTableReference(fromItem: SqlAst): TableReference | null {
+  if (!fromItem || typeof fromItem.table !== 'string' || fromItem.expr) {
+    return null;
+  }
+  const hasThreeParts = fromItem.schema !== undefined && fromItem.schema !== null;
+  return {
+    database: hasThreeParts ? fromItem.db ?? undefined : undefined,
+    schema: hasThreeParts ? fromItem.schema : fromItem.db ?? undefined,
+    table: fromItem.table,
+    exposedName: fromItem.as || fromItem.table,
+  };
+}
+
+/**
+ * Single base table a SELECT reads from, or null when it joins, uses derived tables or set operators.
+ */
+export function getSingleTableReference(select: SqlAst): TableReference | null {
+  if (select._next || !Array.isArray(select.from) || select.from.length !== 1) {
+    return null;
+  }
+  return resolveTableReference(select.from[0]);
+}
+
+/**
+ * Every base table a statement reads, including those in joins, subqueries and CTEs.
+ * CTE names referenced in FROM are included as well, since they look like unqualified tables.
+ */
+export function collectTableReferences(ast: SqlAst): TableReference[] {
+  const tables: TableReference[] = [];
+  const walk = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      const from = (node as SqlAst).from;
+      for (const fromItem of Array.isArray(from) ? from : []) {
+        const table = resolveTableReference(fromItem);
+        if (table) tables.push(table);
+      }
+      Object.values(node).forEach(walk);
+    }
+  };
+  walk(ast);
+  return tables;
+}
+
+// Column a result column reads; `table` is set when the reference could be resolved
+export interface ColumnSource {
+  column: string;
+  table?: TableReference;
+}
+
+// Result column of a SELECT with every table column its expression reads
+interface OutputColumn {
+  name: string;
+  sources: ColumnSource[];
+}
+
+// FROM entry as seen by column references: a base table, or the result columns of a derived
+// table or CTE; neither for table-valued functions and other sources that cannot be traced
+interface ScopeEntry {
+  exposedName: string;
+  table?: TableReference;
+  columns?: OutputColumn[];
+}
+
+/**
+ * Map the output columns of a SELECT (lowercased output name, '' for unnamed expressions) to the
+ * table columns they read. Every column reference in a select-list expression counts, including
+ * those in function arguments, casts and scalar subqueries, and columns of derived tables and CTEs
+ * are traced to the columns their own select lists read. With set operators every branch
+ * contributes the column at the same position. The table is resolved when the reference is
+ * qualified by a FROM entry's exposed name, or when its SELECT reads a single FROM entry.
+ */
+export function resolveColumnSources(select: SqlAst): Map<string, ColumnSource[]> {
+  const sources = new Map<string, ColumnSource[]>();
+  if (select.type !== 'select') {
+    return sources;
+  }
+  for (const column of selectOutputColumns(select, new Map(), [])) {
+    const key = column.name.toLowerCase();
+    sources.set(key, [...(sources.get(key) ?? []), ...column.sources]);
+  }
+  return sources;
+}
+
+// `scopes` are the FROM entries of the enclosing SELECTs, innermost first, for correlated references
+function selectOutputColumns(select: SqlAst, ctes: Map<string, OutputColumn[]>, scopes: ScopeEntry[][]): OutputColumn[] {
+  // Each CTE sees the ones declared before it; a recursive reference to itself stays a plain table
+  const visibleCtes = new Map(ctes);
+  for (const cte of Array.isArray(select.with) ? select.with : []) {
+    const name = cte?.name?.value;
+    if (typeof name !== 'string' || cte.stmt?.ast?.type !== 'select') continue;
+    const renamed: unknown[] = Array.isArray(cte.columns) ? cte.columns.map((col: SqlAst) => col?.column) : [];
+    visibleCtes.set(name.toLowerCase(), selectOutputColumns(cte.stmt.ast, visibleCtes, scopes)
+      .map((col, i) => ({ name: typeof renamed[i] === 'string' ? renamed[i] as string : col.name, sources: col.sources })));
+  }
+
+  let output: OutputColumn[] = [];
+  for (let branch: SqlAst | undefined = select; branch; branch = branch._next) {
+    const fromItems: SqlAst[] = Array.isArray(branch.from) ? branch.from : [];
+    const branchScopes = [fromItems.map(item => scopeEntry(item, visibleCtes, scopes)), ...scopes];
+    const items: SqlAst[] = Array.isArray(branch.columns)
+      ? branch.columns
+      : [{ expr: { type: 'column_ref', table: null, column: '*' } }];
+    const columns = items.flatMap(item => selectItemColumns(item, visibleCtes, branchScopes));
+    output = branch === select
+      ? columns
+      : output.map((col, i) => ({ name: col.name, sources: [...col.sources, ...(columns[i]?.sources ?? [])] }));
+  }
+  return output;
+}
+
+function scopeEntry(fromItem: SqlAst, ctes: Map<string, OutputColumn[]>, scopes: ScopeEntry[][]): ScopeEntry {
+  if (fromItem?.expr?.ast?.type === 'select') {
+    return { exposedName: fromItem.as ?? '', columns: selectOutputColumns(fromItem.expr.ast, ctes, scopes) };
+  }
+  const table = resolveTableReference(fromItem);
+  if (!table) {
+    return { exposedName: fromItem?.as ?? '' };
+  }
+  const cte = !table.schema && !table.database ? ctes.get(table.table.toLowerCase()) : undefined;
+  return cte ? { exposedName: table.exposedName, columns: cte } : { exposedName: table.exposedName, table };
+}
+
+function selectItemColumns(item: SqlAst, ctes: Map<string, OutputColumn[]>, scopes: ScopeEntry[][]): OutputColumn[] {
+  const expr = item?.expr;
+  if (expr?.type === 'column_ref' && expr.column === '*') {
+    // A base table's columns are not known here; masking matches them by their output names
+    const qualifier = typeof expr.table === 'string' ? expr.table.toLowerCase() : null;
+    return scopes[0]
+      .filter(entry => qualifier === null || entry.exposedName.toLowerCase() === qualifier)
+      .flatMap(entry => entry.columns ?? []);
+  }
+  const name = typeof item?.as === 'string' ? item.as : (expr?.type === 'column_ref' && typeof expr.column === 'string' ? expr.column : '');
+  return [{ name, sources: expressionSources(expr, ctes, scopes) }];
+}
+
+function expressionSources(expr: SqlAst, ctes: Map<string, OutputColumn[]>, scopes: ScopeEntry[][]): ColumnSource[] {
+  const sources: ColumnSource[] = [];
+  const walk = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      const ast = node as SqlAst;
+      if (ast.type === 'select') {
+        selectOutputColumns(ast, ctes, scopes).forEach(col => sources.push(...col.sources));
+      } else if (ast.type === 'column_ref' && typeof ast.column === 'string') {
+        if (ast.column !== '*' && !ast.column.startsWith('@')) sources.push(...columnRefSources(ast, scopes));
+      } else {
+        Object.values(node).forEach(walk);
+      }
+    }
+  };
+  walk(expr);
+  return sources;
+}
+
+function columnRefSources(ref: SqlAst, scopes: ScopeEntry[][]): ColumnSource[] {
+  const column: string = ref.column;
+  const named = (entry: ScopeEntry): OutputColumn[] => (entry.columns ?? []).filter(col => col.name.toLowerCase() === column.toLowerCase());
+  const qualifier = typeof ref.table === 'string' ? ref.table.toLowerCase() : null;
+  const candidates = qualifier
+    ? [scopes.flat().find(entry => entry.exposedName.toLowerCase() === qualifier)]
+    : scopes.find(scope => scope.length > 0) ?? [];
+  const entry = candidates.length === 1 ? candidates[0] : undefined;
+  if (entry?.table) {
+    return [{ column, table: entry.table }];
+  }
+  if (entry && named(entry).length > 0) {
+    return named(entry).flatMap(col => col.sources);
+  }
+  // Ambiguous or untraceable: the bare name, plus whatever a derived table of that name reads
+  return [{ column }, ...candidates.flatMap(candidate => (candidate ? named(candidate) : [])).flatMap(col => col.sources)];
+}
+
+/**
+ * Parse a row-filter predicate into a WHERE-clause AST.
+ * Throws when the text is anything other than a single boolean expression.
+ */
+export function parseFilterPredicate(predicate: string): SqlAst {
+  const parser = new nodeParser.Parser();
+  const ast = parser.astify(`SELECT * FROM [__filtered] WHERE ${predicate}`, PARSER_OPTIONS) as SqlAst | SqlAst[];
+  const statements = Array.isArray(ast) ? ast : [ast];
+  const select = statements[0];
+  if (statements.length !== 1 || select?.type !== 'select' || !select.where || select._next ||
+      select.groupby?.columns?.length || select.having || select.orderby || select.limit || select.for) {
+    throw new Error('expected a single boolean expression');
+  }
+  return select.where;
+}
+
+/**
+ * Names (without `@`) of the variables a predicate references.
+ */
+export function predicateParameterNames(predicate: SqlAst): string[] {
+  const names = new Set<string>();
+  const walk = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      const ast = node as SqlAst;
+      if (ast.type === 'column_ref' && typeof ast.column === 'string' && ast.column.startsWith('@')) {
+        names.add(ast.column.slice(1));
+      }
+      Object.values(node).forEach(walk);
+    }
+  };
+  walk(predicate);
+  return [...names];
+}
+
+/**
+ * Copy of a predicate with its `@name` variables renamed.
+ */
+export function renamePredicateParameters(predicate: SqlAst, rename: (name: string) => string): SqlAst {
+  const copy = structuredClone(predicate);
+  const walk = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      const ast = node as SqlAst;
+      if (ast.type === 'column_ref' && typeof ast.column === 'string' && ast.column.startsWith('@')) {
+        ast.column = `@${rename(ast.column.slice(1))}`;
+      }
+      Object.values(node).forEach(walk);
+    }
+  };
+  walk(copy);
+  return copy;
+}
+
+/**
+ * Rewrite a statement in place so every FROM reference to a filtered table reads
+ * `(SELECT * FROM table WHERE predicate) AS alias` instead. This covers joins (outer joins keep
+ * their semantics), subqueries and CTE bodies; references to the statement's CTEs are left alone.
+ * `filterFor` returns the predicate for a table, or null when it is not filtered.
+ * Returns the references that were rewritten.
+ */
+export function applyRowFilters(statement: SqlAst, filterFor: (table: TableReference) => SqlAst | null): TableReference[] {
+  const rewritten: TableReference[] = [];
+  const cteNames = new Set<string>((Array.isArray(statement.with) ? statement.with : [])
+    .map((cte: SqlAst) => cte?.name?.value)
+    .filter((name: unknown): name is string => typeof name === 'string')
+    .map((name: string) => name.toLowerCase()));
+
+  const walk = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      // Children first, so the derived tables created below are not visited again
+      Object.values(node).forEach(walk);
+      const ast = node as SqlAst;
+      if (!Array.isArray(ast.from)) return;
+      ast.from = ast.from.map((fromItem: SqlAst) => {
+        const table = resolveTableReference(fromItem);
+        if (!table || (!table.schema && cteNames.has(table.table.toLowerCase()))) return fromItem;
+        const predicate = filterFor(table);
+        if (!predicate) return fromItem;
+        rewritten.push(table);
+        const { as, join, on, operator, ...source } = fromItem;
+        return {
+          expr: {
+            ast: {
+              with: null, type: 'select', options: null, distinct: null,
+              columns: [{ expr: { type: 'column_ref', table: null, column: '*' }, as: null }],
+              into: { position: null },
+              from: [{ ...source, as: null }],
+              for: null, where: predicate, groupby: null, having: null, top: null, orderby: null, limit: null,
+            },
+            parentheses: true,
+          },
+          as: table.exposedName,
+          operator: operator ?? null,
+          ...(join ? { join, on } : {}),
+        };
+      });
+    }
+  };
+  walk(statement);
+  return rewritten;
+}
+
+function hasStarColumn(select: SqlAst): boolean {
+  return !Array.isArray(select.columns) || select.columns.some(col => col?.expr?.type === 'column_ref' && col.expr.column === '*');
+}
+
+function ordinalOrderBy(positions: number): SqlAst[] {
+  return Array.from({ length: positions }, (_, i) => ({ expr: { type: 'number', value: i + 1 }, type: 'ASC' }));
+}
+
+/**
+ * Build an ORDER BY for a SELECT that has none, so OFFSET/FETCH pages are stable.
+ * Primary-key columns are preferred; DISTINCT/GROUP BY queries (which can only order by
+ * selected expressions) and queries without a known key fall back to column ordinals.
+ */
+function buildDeterministicOrderBy(select: SqlAst, keyColumns?: string[]): SqlAst[] {
+  const table = getSingleTableReference(select);
+  if (keyColumns?.length && table && !select.distinct && !select.groupby?.columns?.length) {
+    return keyColumns.map(column => ({
+      expr: { type: 'column_ref', table: table.exposedName, column },
+      type: 'ASC',
+    }));
+  }
+  if (hasStarColumn(select)) {
+    return ordinalOrderBy(1);
+  }
+  return ordinalOrderBy(select.columns.length);
+}
+
+function buildOffsetFetch(offset: number, fetchRows: number): SqlAst {
+  return {
+    offset: {
+      prefix: [{ type: 'origin', value: 'offset' }],
+      value: { type: 'number', value: offset },
+      suffix: [{ type: 'origin', value: 'rows' }],
+    },
+    fetch: {
+      prefix: [{ type: 'origin', value: 'fetch' }, { type: 'origin', value: 'next' }],
+      value: { type: 'number', value: fetchRows },
+      suffix: [{ type: 'origin', value: 'rows' }, { type: 'origin', value: 'only' }],
+    },
+  };
+}
+
+/**
+ * Rewrite a SELECT in place so SQL Server only returns the requested window of rows.
+ *
+ * - Plain SELECTs get `OFFSET offset ROWS FETCH NEXT fetchRows ROWS ONLY`, adding a
+ *   deterministic ORDER BY (primary key or column ordinals) when the query has none.
+ * - SELECTs with a numeric `TOP n` keep TOP (T-SQL forbids mixing it with OFFSET) but have n
+ *   lowered to `offset + fetchRows`; the caller must then skip the first `offset` rows itself.
+ *
+ * Returns the number of leading rows the caller still has to discard, or null when the
+ * statement cannot be rewritten (set operators, SELECT INTO, existing OFFSET/FETCH,
+ * TOP PERCENT/expressions) and should be paged in memory instead.
+ */
+export function applyServerPagination(select: SqlAst, offset: number, fetchRows: number, keyColumns?: string[]): number | null {
+  if (select.type !== 'select' || select._next || select.into?.expr || select.limit) {
+    return null;
+  }
+
+  if (select.top) {
+    if (typeof select.top.value !== 'number' || select.top.percent) {
+      return null;
+    }
+    select.top = { ...select.top, value: Math.min(select.top.value, offset + fetchRows) };
+    return offset;
+  }
+
+  if (!select.orderby?.length) {
+    select.orderby = buildDeterministicOrderBy(select, keyColumns);
+  }
+  select.limit = buildOffsetFetch(offset, fetchRows);
+  return 0;
+}
+
+export interface KeysetKey {
+  column: string;
+  descending: boolean;
+  // Alias of the hidden select-list column that carries this key's value back to the caller
+  alias: string;
+}
+
+// Prefix for the hidden select-list columns added by applyKeysetPagination
+export const KEYSET_COLUMN_PREFIX = '__keyset_';
+
+/**
+ * Work out the ordered key columns that make a SELECT resumable from a cursor: its own
+ * ORDER BY columns followed by any primary-key columns not already listed, so the order is unique.
+ * Returns null unless the query reads a single base table with a known primary key, orders only
+ * by plain columns of that table, and uses no TOP, OFFSET/FETCH, DISTINCT, GROUP BY or set operator.
+ * Every key must be one of `notNullColumns` (lowercased names): rows with a NULL key would never
+ * compare greater or less than a cursor value, so a page boundary would skip them.
+ */
+export function resolveKeysetKeys(select: SqlAst, primaryKey: string[] | undefined, notNullColumns: ReadonlySet<string>): KeysetKey[] | null {
+  const table = getSingleTableReference(select);
+  if (!table || !primaryKey?.length || select.top || select.limit || select.distinct ||
+      select.groupby?.columns?.length || select.into?.expr) {
+    return null;
+  }
+
+  const selectAliases = new Set(
+    (Array.isArray(select.columns) ? select.columns : [])
+      .map(col => (typeof col?.as === 'string' ? col.as.toLowerCase() : null))
+      .filter(Boolean)
+  );
+
+  const keys: KeysetKey[] = [];
+  for (const item of select.orderby ?? []) {
+    const expr = item.expr;
+    if (expr?.type !== 'column_ref' || typeof expr.column !== 'string' || expr.column.startsWith('@')) {
+      return null;
+    }
+    if (expr.table ? expr.table.toLowerCase() !== table.exposedName.toLowerCase() : selectAliases.has(expr.column.toLowerCase())) {
+      return null;
+    }
+    keys.push({ column: expr.column, descending: String(item.type).toUpperCase() === 'DESC', alias: `${KEYSET_COLUMN_PREFIX}${keys.length}` });
+  }
+  for (const column of primaryKey) {
+    if (!keys.some(k => k.column.toLowerCase() === column.toLowerCase())) {
+      keys.push({ column, descending: false, alias: `${KEYSET_COLUMN_PREFIX}${keys.length}` });
+    }
+  }
+  return keys.every(key => notNullColumns.has(key.column.toLowerCase())) ? keys : null;
+}
+
+function keyColumnRef(table: string, column: string): SqlAst {
+  return { type: 'column_ref', table, column };
+}
+
+function binaryExpr(operator: string, left: SqlAst, right: SqlAst, parentheses = false): SqlAst {
+  return { type: 'binary_expr', operator, left, right, ...(parentheses ? { parentheses: true } : {}) };
+}
+
+/**
+ * Rewrite a SELECT (already vetted by resolveKeysetKeys) for keyset pagination:
+ * - ORDER BY becomes the full key list,
+ * - each key is also selected under a hidden alias so the last row's values can be read back,
+ * - when resuming, `WHERE (k1, k2, ...) > (@p0, @p1, ...)` is added, expanded into the
+ *   `k1 > @p0 OR (k1 = @p0 AND k2 > @p1) ...` form T-SQL requires, honouring DESC keys.
+ * `parameterNames` are the placeholders the caller binds the cursor values to.
+ */
+export function applyKeysetPagination(select: SqlAst, keys: KeysetKey[], parameterNames?: string[]): void {
+  const table = getSingleTableReference(select)!.exposedName;
+
+  select.orderby = keys.map(key => ({ expr: keyColumnRef(table, key.column), type: key.descending ? 'DESC' : 'ASC' }));
+  select.columns = [
+    ...select.columns,
+    ...keys.map(key => ({ expr: keyColumnRef(table, key.column), as: key.alias })),
+  ];
+
+  if (!parameterNames) {
+    return;
+  }
+
+  const param = (i: number): SqlAst => ({ type: 'column_ref', table: null, column: parameterNames[i] });
+  let predicate: SqlAst | null = null;
+  for (let i = keys.length - 1; i >= 0; i--) {
+    const after = binaryExpr(keys[i].descending ? '<' : '>', keyColumnRef(table, keys[i].column), param(i));
+    predicate = predicate
+      ? binaryExpr('OR', after, binaryExpr('AND', binaryExpr('=', keyColumnRef(table, keys[i].column), param(i)), predicate, true), true)
+      : after;
+  }
+
+  select.where = select.where
+    ? binaryExpr('AND', { ...select.where, parentheses: true }, predicate!)
+    : predicate;
+}
+
+export interface KeysetCursor {
+  // Fingerprint of the query/database the cursor was issued for
+  fingerprint: string;
+  // Key column names, in ORDER BY order
+  keys: string[];
+  // Last-seen value of each key column
+  values: unknown[];
+}
+
+function encodeCursorValue(value: unknown): unknown {
+  if (value instanceof Date) return { $date: value.toISOString() };
+  if (Buffer.isBuffer(value)) return { $binary: value.toString('base64') };
+  return value;
+}
+
+function decodeCursorValue(value: unknown): unknown {
+  if (value && typeof value === 'object') {
+    if (typeof (value as any).$date === 'string') return new Date((value as any).$date);
+    if (typeof (value as any).$binary === 'string') return Buffer.from((value as any).$binary, 'base64');
+  }
+  return value;
+}
+
+/**
+ * Encode keyset state as an opaque, URL-safe continuation token.
+ */
+export function encodeKeysetCursor(cursor: KeysetCursor): string {
+  const payload = { f: cursor.fingerprint, k: cursor.keys, v: cursor.values.map(encodeCursorValue) };
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a token produced by encodeKeysetCursor. Returns null if the token is malformed.
+ */
+export function decodeKeysetCursor(token: string): KeysetCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+    if (typeof payload?.f !== 'string' || !Array.isArray(payload.k) || !Array.isArray(payload.v) ||
+        payload.k.length === 0 || payload.k.length !== payload.v.length || !payload.k.every((k: unknown) => typeof k === 'string')) {
+      return null;
+    }
+    return { fingerprint: payload.f, keys: payload.k, values: payload.v.map(decodeCursorValue) };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,251 @@
+// Read-only checks for queries run through execute_query and explain_query.
+// node-sql-parser accepts several constructs under a `select` node that write data or reach
+// outside the server, so the whole tree is walked rather than just the statement types.
+import { SqlAst } from './queryRewriter.js';
+
+export interface ReadOnlyViolation {
+  construct: string;
+  reason: string;
+}
+
+// Rowset functions that run statements against external data sources and linked servers
+export const REMOTE_ROWSET_FUNCTIONS: ReadonlySet<string> = new Set(['openrowset', 'openquery', 'opendatasource']);
+
+// Local temp tables (#name) are private to the connection; global ones (##name) are not
+export function isLocalTempTable(name: unknown): boolean {
+  return typeof name === 'string' && name.startsWith('#') && !name.startsWith('##');
+}
+
+function functionName(node: SqlAst): string | null {
+  const parts = node.name?.name;
+  if (!Array.isArray(parts) || parts.length === 0) return null;
+  const last = parts[parts.length - 1];
+  return typeof last?.value === 'string' ? last.value.toLowerCase() : null;
+}
+
+/**
+ * First construct in the parsed statements that could write data or leave the server:
+ * SELECT ... INTO, OPENROWSET/OPENQUERY/OPENDATASOURCE, and four-part (linked server) names.
+ * With `allowTempTableInto`, SELECT ... INTO a local temp table (#name) is accepted, since it
+ * only lives as long as the connection. Returns null when there is none.
+ */
+export function findReadOnlyViolation(statements: SqlAst[], options: { allowTempTableInto?: boolean } = {}): ReadOnlyViolation | null {
+  let violation: ReadOnlyViolation | null = null;
+  const walk = (node: unknown): void => {
+    if (violation) return;
+    if (Array.isArray(node)) {
+      node.forEach(walk);
+    } else if (node && typeof node === 'object') {
+      const ast = node as SqlAst;
+      const name = ast.type === 'function' ? functionName(ast) : null;
+      if (ast.into?.expr && !(options.allowTempTableInto && isLocalTempTable(ast.into.expr))) {
+        violation = { construct: 'SELECT INTO', reason: `SELECT ... INTO creates the table '${ast.into.expr}'` };
+      } else if (name && REMOTE_ROWSET_FUNCTIONS.has(name)) {
+        violation = { construct: name.toUpperCase(), reason: `${name.toUpperCase()} runs a statement against an external data source or linked server` };
+      } else if (typeof ast.server === 'string' && typeof ast.table === 'string') {
+        const fullName = [ast.server, ast.db, ast.schema, ast.table].filter(Boolean).join('.');
+        violation = { construct: 'linked server', reason: `'${fullName}' is a four-part name on linked server '${ast.server}'` };
+      }
+      Object.values(node).forEach(walk);
+    }
+  };
+  walk(statements);
+  return violation;
+}
+
+export type SqlTokenType = 'word' | 'identifier' | 'string' | 'number' | 'variable' | 'symbol';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  // Words are uppercased; quoted identifiers are unquoted
+  text: string;
+  // Text as written, for messages
+  raw: string;
+}
+
+/**
+ * Split T-SQL into tokens, dropping whitespace and comments (block comments nest, as in T-SQL).
+ * Returns `{ error }` for unterminated strings, identifiers and comments.
+ */
+export function tokenizeSql(query: string): SqlToken[] | { error: string } {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+  while (i < query.length) {
+    const ch = query[i];
+    const next = query[i + 1];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '-' && next === '-') {
+      while (i < query.length && query[i] !== '\n') i++;
+    } else if (ch === '/' && next === '*') {
+      let depth = 1;
+      i += 2;
+      while (i < query.length && depth > 0) {
+        if (query[i] === '/' && query[i + 1] === '*') { depth++; i += 2; }
+        else if (query[i] === '*' && query[i + 1] === '/') { depth--; i += 2; }
+        else i++;
+      }
+      if (depth > 0) return { error: 'unterminated comment' };
+    } else if (ch === "'" || ch === '[' || ch === '"' || ((ch === 'N' || ch === 'n') && next === "'")) {
+      const start = ch === "'" || ch === '[' || ch === '"' ? i : i + 1;
+      const close = query[start] === '[' ? ']' : query[start];
+      let j = start + 1;
+      let text = '';
+      for (;;) {
+        if (j >= query.length) return { error: close === "'" ? 'unterminated string literal' : 'unterminated quoted identifier' };
+        if (query[j] === close) {
+          if (query[j + 1] === close) { text += close; j += 2; continue; }
+          break;
+        }
+        text += query[j++];
+      }
+      tokens.push({ type: close === "'" ? 'string' : 'identifier', text, raw: query.slice(i, j + 1) });
+      i = j + 1;
+    } else if (ch === '@') {
+      const match = /^@@?[A-Za-z0-9_#$@]*/.exec(query.slice(i))![0];
+      tokens.push({ type: 'variable', text: match, raw: match });
+      i += match.length;
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(next ?? ''))) {
+      const match = /^(?:0x[0-9A-Fa-f]*|[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?\.?)/.exec(query.slice(i))![0];
+      tokens.push({ type: 'number', text: match, raw: match });
+      i += match.length;
+    } else if (/[A-Za-z_#\u0080-\uffff]/.test(ch)) {
+      const match = /^[A-Za-z_#\u0080-\uffff][A-Za-z0-9_#$@\u0080-\uffff]*/.exec(query.slice(i))![0];
+      tokens.push({ type: ch === '#' ? 'identifier' : 'word', text: ch === '#' ? match : match.toUpperCase(), raw: match });
+      i += match.length;
+    } else {
+      tokens.push({ type: 'symbol', text: ch, raw: ch });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+// Keywords that start or belong to statements other than SELECT. Some are allowed in a
+// particular position inside a SELECT: MERGE as a join/union hint, USE in OPTION (USE HINT/PLAN).
+export const FORBIDDEN_KEYWORDS: ReadonlySet<string> = new Set([
+  'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'BULK', 'WRITETEXT', 'UPDATETEXT', 'READTEXT',
+  'CREATE', 'ALTER', 'DROP', 'GRANT', 'REVOKE', 'DENY', 'ADD',
+  'EXEC', 'EXECUTE', 'DECLARE', 'SET', 'USE', 'SETUSER', 'REVERT',
+  'BEGIN', 'COMMIT', 'ROLLBACK', 'SAVE', 'TRAN', 'TRANSACTION',
+  'IF', 'WHILE', 'GOTO', 'RETURN', 'BREAK', 'CONTINUE', 'THROW', 'RAISERROR', 'PRINT', 'GO',
+  'OPEN', 'CLOSE', 'DEALLOCATE', 'CURSOR',
+  'SEND', 'RECEIVE', 'CONVERSATION',
+  'BACKUP', 'RESTORE', 'DBCC', 'CHECKPOINT', 'KILL', 'SHUTDOWN', 'RECONFIGURE', 'WAITFOR', 'ENABLE', 'DISABLE',
+]);
+
+const ALLOWED_FOLLOWERS: Record<string, ReadonlySet<string>> = {
+  MERGE: new Set(['JOIN', 'UNION']),
+  USE: new Set(['HINT', 'PLAN']),
+};
+
+export const isName = (token: SqlToken | undefined): boolean => token?.type === 'word' || token?.type === 'identifier';
+const isDot = (token: SqlToken | undefined): boolean => token?.type === 'symbol' && token.text === '.';
+
+/**
+ * Dotted name starting at tokens[i]: its number of parts (the empty parts of `a..b` included)
+ * and the index of the first token after it.
+ */
+export function readNameChain(tokens: SqlToken[], i: number): { parts: number; end: number } {
+  let parts = 1;
+  let j = i + 1;
+  while (isDot(tokens[j])) {
+    parts++;
+    j += isName(tokens[j + 1]) ? 2 : 1;
+  }
+  return { parts, end: j };
+}
+
+/**
+ * Conservative read-only check for queries node-sql-parser cannot parse. Every statement of the
+ * batch must start with SELECT or WITH, and no token may be a keyword of another statement type,
+ * INTO, a remote rowset function, NEXT VALUE FOR, or a name of four or more parts.
+ * Returns the first offending construct, or null when the batch passes.
+ */
+export function validateUnparsedQuery(query: string): ReadOnlyViolation | null {
+  const tokens = tokenizeSql(query);
+  if (!Array.isArray(tokens)) {
+    return { construct: tokens.error, reason: `the query has an ${tokens.error}` };
+  }
+  if (tokens.length === 0) {
+    return { construct: 'empty batch', reason: 'the query contains no statement' };
+  }
+
+  let depth = 0;
+  let statementStart = true;
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const nextToken = tokens[i + 1];
+
+    if (token.type === 'symbol' && token.text === ';' && depth === 0) {
+      statementStart = true;
+      continue;
+    }
+    if (statementStart) {
+      statementStart = false;
+      if (token.type !== 'word' || (token.text !== 'SELECT' && token.text !== 'WITH')) {
+        return { construct: token.text, reason: `every statement must be a SELECT, but one starts with '${token.text}'` };
+      }
+    }
+
+    if (token.type === 'symbol') {
+      if (token.text === '(') depth++;
+      if (token.text === ')' && --depth < 0) {
+        return { construct: 'unbalanced parentheses', reason: 'the query has a closing parenthesis without an opening one' };
+      }
+      continue;
+    }
+
+    if (token.type === 'word') {
+      if (token.text === 'INTO') {
+        return { construct: 'SELECT INTO', reason: 'INTO would create or write a table' };
+      }
+      if (REMOTE_ROWSET_FUNCTIONS.has(token.text.toLowerCase())) {
+        return { construct: token.text, reason: `${token.text} runs a statement against an external data source or linked server` };
+      }
+      if (token.text === 'NEXT' && nextToken?.text === 'VALUE' && tokens[i + 2]?.text === 'FOR') {
+        return { construct: 'NEXT VALUE FOR', reason: 'NEXT VALUE FOR advances a sequence, which is a write' };
+      }
+      if (FORBIDDEN_KEYWORDS.has(token.text) && !(nextToken?.type === 'word' && ALLOWED_FOLLOWERS[token.text]?.has(nextToken.text))) {
+        return { construct: token.text, reason: `${token.text} is not allowed in a read-only query (bracket it, e.g. [${token.text.toLowerCase()}], if it is a column or table name)` };
+      }
+    }
+
+    // Multi-part names: server.database.schema.object names a linked server
+    if (isName(token) && !isDot(tokens[i - 1])) {
+      const chain = readNameChain(tokens, i);
+      if (chain.parts >= 4) {
+        const fullName = tokens.slice(i, chain.end).map(t => t.raw).join('');
+        return { construct: 'linked server', reason: `'${fullName}' is a four-part name on a linked server` };
+      }
+    }
+  }
+
+  if (depth !== 0) {
+    return { construct: 'unbalanced parentheses', reason: 'the query has an opening parenthesis without a closing one' };
+  }
+  return null;
+}
+
+/**
+ * Constructs the parser cannot represent, found in the query text itself: NEXT VALUE FOR
+ * (which advances a sequence) and OPENDATASOURCE followed by an object name. Checked whether or
+ * not parsing succeeds, so these are reported with a specific reason instead of a syntax error.
+ */
+export function findReadOnlyViolationInText(query: string): ReadOnlyViolation | null {
+  const tokens = tokenizeSql(query);
+  if (!Array.isArray(tokens)) {
+    return null;
+  }
+  for (let i = 0; i < tokens.length; i++) {
+    const [token, next, after] = [tokens[i], tokens[i + 1], tokens[i + 2]];
+    if (token.type !== 'word') continue;
+    if (token.text === 'NEXT' && next?.text === 'VALUE' && after?.text === 'FOR') {
+      return { construct: 'NEXT VALUE FOR', reason: 'NEXT VALUE FOR advances a sequence, which is a write' };
+    }
+    if (token.text === 'OPENDATASOURCE' && next?.text === '(') {
+      return { construct: 'OPENDATASOURCE', reason: 'OPENDATASOURCE runs a statement against an external data source or linked server' };
+    }
+  }
+  return null;
+}
@@ -5,12 +5,19 @@ import {
   DatabaseService, 
   SqlConfig, 
   QueryResult, 
-  StoredProcedureResult 
+  StoredProcedureResult,
+  StoredProcedureParameter,
+  QueryParameter,
+  SessionInfo,
+  WriteResult
 } from './DatabaseService.js'; // Import DatabaseService, SqlConfig, and result types
 import { MssqlMcpError, ErrorType, ErrorDetails } from './errors.js';
-import { sqlConfig } from "./config.js";
+import type { PlanSummary } from './showplan.js';
+import { sqlConfig, loadSqlConfig, applyReloadedSqlConfig } from "./config.js";
+import { loadAccessPolicy } from './policy.js';
 import type { McpServerWithRegisterTool } from './types.js';
 import pino from "pino";
+import { watchFile, unwatchFile } from "fs";
 
 // Define mcpConfig for server name and version
 const mcpConfig = {
@@ -35,41 +42,121 @@ const mcpServer = server as any as McpServerWithRegisterTool;
 // Instantiate DatabaseService - will be initialized in main()
 let databaseService: DatabaseService;
 
+// Profile name of the server configured by the top-level SQL_* settings
+const DEFAULT_SERVER = 'default';
+
+// Connection settings of every server profile, keyed by lowercased name; rebuilt on reload
+let serverConfigs: Map<string, SqlConfig> = buildServerConfigs(sqlConfig as SqlConfig);
+
+// One DatabaseService per server profile, each with its own pool, retry state, caches and
+// sessions; created in main(). The default server's is also `databaseService`.
+const databaseServices: Map<string, DatabaseService> = new Map();
+
+function buildServerConfigs(config: SqlConfig): Map<string, SqlConfig> {
+  const { profiles = {}, ...defaultConfig } = config;
+  const configs = new Map<string, SqlConfig>([[DEFAULT_SERVER, defaultConfig]]);
+  for (const [name, profile] of Object.entries(profiles)) {
+    configs.set(name.toLowerCase(), { ...defaultConfig, ...profile });
+  }
+  return configs;
+}
+
+/**
+ * DatabaseService for a tool call's `server` argument, or the default server's. Without a
+ * server, a call on a session goes to the server holding that session.
+ */
+function serviceFor(server?: string, sessionId?: string): DatabaseService {
+  if (!server) {
+    const owner = sessionId ? [...databaseServices.values()].find(service => service.hasSession(sessionId)) : undefined;
+    return owner ?? databaseService;
+  }
+  const service = databaseServices.get(server.toLowerCase());
+  if (!service) {
+    throw new MssqlMcpError(
+      `Unknown server '${server}'. Configured servers: ${[...serverConfigs.keys()].join(', ')}`,
+      ErrorType.VALIDATION_ERROR,
+      undefined,
+      { server, servers: [...serverConfigs.keys()] }
+    );
+  }
+  return service;
+}
+
 // Tool parameter schemas
 const spParamSchema = z.object({
   name: z.string().describe("Parameter name"),
-  type: z.string().describe("SQL parameter type (e.g., 'VarChar', 'Int')"),
+  type: z.string().optional().describe("SQL parameter type, optionally with length, precision or scale (e.g., 'Int', 'varchar(50)', 'nvarchar(max)', 'decimal(18,4)', 'datetime2(3)', 'sysname'). Omit to use the type declared by the procedure."),
+  value: z.unknown().optional().describe("Parameter value. For 'output' parameters it is ignored; for 'inout' it is the value passed in."),
+  direction: z.enum(['input', 'output', 'inout']).optional().describe("Parameter direction. Defaults to 'input'. OUTPUT parameter values are returned in outputParameters."),
+  tableType: z.string().optional().describe("User-defined table type (schema.name) of a table-valued parameter; value is then an array of row objects keyed by column name. Defaults to the type the procedure declares.")
+});
+
+const queryParamSchema = z.object({
+  name: z.string().describe("Parameter name, referenced in the query as @name"),
+  type: z.string().optional().describe("SQL type (e.g., 'int', 'nvarchar(100)', 'decimal(18,4)'). Inferred from the value when omitted."),
   value: z.unknown().optional().describe("Parameter value")
 });
 
 const executeQueryParams = {
-  query: z.string().describe("SQL query to execute"),
+  query: z.string().describe("SQL query to execute. Reference values supplied in parameters as @name instead of writing literals."),
   database: z.string().optional().describe("Target database name"),
   offset: z.number().int().min(0).optional().describe("Number of rows to skip (for pagination). Defaults to 0."),
-  limit: z.number().int().min(1).optional().describe("Maximum number of rows to return (for pagination). Defaults to server maxRows setting.")
+  limit: z.number().int().min(1).optional().describe("Maximum number of rows to return (for pagination). Defaults to, and is capped at, the server maxRows setting."),
+  cursor: z.string().optional().describe("Continuation token from a previous response's pagination.cursor. Resumes after the last row of that page; send the same query text and parameters and omit offset."),
+  parameters: z.array(queryParamSchema).optional().describe("Values bound to @name placeholders in the query"),
+  sessionId: z.string().optional().describe("Session from open_session to run the query on, so temp tables from earlier calls are visible. Within a session, SELECT ... INTO #temp is allowed."),
+  server: z.string().optional().describe("Named server profile to run against (see SQL_PROFILES). Defaults to the session's server, or the default server.")
+};
+
+const explainQueryParams = {
+  query: z.string().describe("SELECT query to explain (it is not executed)"),
+  database: z.string().optional().describe("Target database name"),
+  parameters: z.array(queryParamSchema).optional().describe("Values bound to @name placeholders in the query"),
+  server: z.string().optional().describe("Named server profile to run against (see SQL_PROFILES). Defaults to the default server.")
+};
+
+const executeWriteParams = {
+  statement: z.string().describe("Single INSERT, UPDATE, DELETE or MERGE statement. UPDATE and DELETE must have a WHERE clause. Reference values supplied in parameters as @name."),
+  database: z.string().optional().describe("Target database name"),
+  parameters: z.array(queryParamSchema).optional().describe("Values bound to @name placeholders in the statement"),
+  confirmationToken: z.string().optional().describe("Token from a previous dry run of this exact statement, database and parameters. Omit it for a dry run; pass it to commit."),
+  server: z.string().optional().describe("Named server profile to run against (see SQL_PROFILES). Defaults to the default server.")
 };
 
 const executeSpParams = {
   procedure: z.string().describe("Stored procedure name to execute"),
   parameters: z.array(spParamSchema).optional().describe("Parameters for the stored procedure"),
-  database: z.string().optional().describe("Target database name")
+  database: z.string().optional().describe("Target database name"),
+  sessionId: z.string().optional().describe("Session from open_session to run the procedure on"),
+  server: z.string().optional().describe("Named server profile to run against (see SQL_PROFILES). Defaults to the session's server, or the default server.")
+};
+
+const openSessionParams = {
+  database: z.string().optional().describe("Database the session connects to"),
+  snapshot: z.boolean().optional().describe("Hold a SNAPSHOT isolation transaction for the whole session, so every call sees the same data. Requires ALLOW_SNAPSHOT_ISOLATION on the database; the transaction is rolled back when the session closes."),
+  server: z.string().optional().describe("Named server profile to run against (see SQL_PROFILES). Defaults to the default server.")
+};
+
+const closeSessionParams = {
+  sessionId: z.string().describe("Session to close"),
+  server: z.string().optional().describe("Named server profile the session was opened on. Defaults to the server holding the session.")
 };
 
 // SQL query execution tool
 mcpServer.registerTool(
   "execute_query",
   {
-    description: "Execute a read-only SQL query against a SQL Server database. Supports SELECT statements only — use execute_stored_procedure for calling stored procedures. Results are paginated: use offset and limit parameters to page through large result sets. The response includes pagination metadata (hasMore, nextOffset, totalRowsFetched) when results are truncated.",
+    description: "Execute a read-only SQL query against a SQL Server database. Supports SELECT statements only — use execute_stored_procedure for calling stored procedures. Pass values through parameters and reference them as @name rather than embedding literals. Results are paginated: use offset and limit parameters to page through large result sets. The response includes pagination metadata (hasMore, nextOffset, totalRowsFetched) when results are truncated. Single-table queries on tables with a primary key, ordered only by NOT NULL columns, also return a pagination.cursor; pass it back as cursor to fetch the next page stably even if rows change between calls.",
     inputSchema: executeQueryParams,
     annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false }
   },
-  async (args: { query: string; database?: string; offset?: number; limit?: number }, context) => {
+  async (args: { query: string; database?: string; offset?: number; limit?: number; cursor?: string; parameters?: QueryParameter[]; sessionId?: string; server?: string }, context) => {
     logger.info({ tool: 'execute_query', arguments: args }, 'MCP execute_query tool received request');
 
-    const { query, database: rawDatabaseArg, offset, limit } = args;
+    const { query, database: rawDatabaseArg, offset, limit, cursor, parameters, sessionId, server: serverArg } = args;
 
     try {
-      const result: QueryResult = await databaseService.executeQuery(query, rawDatabaseArg, offset, limit);
+      const result: QueryResult = await serviceFor(serverArg, sessionId).executeQuery(query, rawDatabaseArg, { offset, limit, cursor, parameters, sessionId });
       logger.info({ result }, 'Query executed successfully');
       return {
         content: [{
@@ -79,8 +166,47 @@ mcpServer.registerTool(
       };
     } catch (error: unknown) {
       
-      logger.error({ err: error, query, database: rawDatabaseArg }, 'Error in execute_query tool handler');
-      const mcpError = MssqlMcpError.fromError(error, ErrorType.QUERY_ERROR, { tool: 'execute_query', query, database: rawDatabaseArg } as ErrorDetails);
+      logger.error({ err: error, query, database: rawDatabaseArg, server: serverArg }, 'Error in execute_query tool handler');
+      const mcpError = MssqlMcpError.fromError(error, ErrorType.QUERY_ERROR, { tool: 'execute_query', query, database: rawDatabaseArg, server: serverArg } as ErrorDetails);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: mcpError.message,
+            errorType: mcpError.errorType,
+            details: mcpError.details
+          }, null, 2)
+        }]
+      };
+    }
+  }
+);
+
+// Query plan explanation tool
+mcpServer.registerTool(
+  "explain_query",
+  {
+    description: "Show the estimated execution plan for a read-only SQL query without running it. Returns a compact summary per statement: estimated cost and rows, missing-index hints, plan warnings, and the operator tree with estimated rows, cost percentages and index seek/scan/lookup access. Use this to understand why a query is slow before executing it.",
+    inputSchema: explainQueryParams,
+    annotations: { readOnlyHint: true, destructiveHint: false, openWorldHint: false }
+  },
+  async (args: { query: string; database?: string; parameters?: QueryParameter[]; server?: string }, context) => {
+    logger.info({ tool: 'explain_query', arguments: args }, 'MCP explain_query tool received request');
+
+    const { query, database: rawDatabaseArg, parameters, server: serverArg } = args;
+
+    try {
+      const result: PlanSummary = await serviceFor(serverArg).explainQuery(query, rawDatabaseArg, parameters);
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error: unknown) {
+      logger.error({ err: error, query, database: rawDatabaseArg, server: serverArg }, 'Error in explain_query tool handler');
+      const mcpError = MssqlMcpError.fromError(error, ErrorType.QUERY_ERROR, { tool: 'explain_query', query, database: rawDatabaseArg, server: serverArg } as ErrorDetails);
       return {
         isError: true,
         content: [{
@@ -100,19 +226,21 @@ mcpServer.registerTool(
 mcpServer.registerTool(
   "execute_stored_procedure",
   {
-    description: "Execute a stored procedure on a SQL Server database",
+    description: "Execute a stored procedure on a SQL Server database. Parameter types default to those declared by the procedure; unknown parameters and missing required parameters are rejected before execution. See the procedures:// resources for signatures.",
     inputSchema: executeSpParams,
     annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: false }
   },
   async (args: { 
     procedure: string; 
-    parameters?: Array<{ name: string; type: string; value?: any }>; 
-    database?: string 
+    parameters?: StoredProcedureParameter[]; 
+    database?: string;
+    sessionId?: string;
+    server?: string
   }, context) => {
-    const { procedure, parameters = [], database: rawDatabaseArg } = args;
+    const { procedure, parameters = [], database: rawDatabaseArg, sessionId, server: serverArg } = args;
 
     try {
-      const result: StoredProcedureResult = await databaseService.executeStoredProcedure(procedure, parameters, rawDatabaseArg);
+      const result: StoredProcedureResult = await serviceFor(serverArg, sessionId).executeStoredProcedure(procedure, parameters, rawDatabaseArg, sessionId);
       return {
         content: [{ 
           type: "text" as const, 
@@ -120,8 +248,8 @@ mcpServer.registerTool(
         }]
       };
     } catch (error: unknown) {
-      logger.error({ err: error, procedure, database: rawDatabaseArg }, 'Error in execute_stored_procedure tool handler');
-      const mcpError = MssqlMcpError.fromError(error, ErrorType.STORED_PROCEDURE_ERROR, { tool: 'execute_stored_procedure', procedure, database: rawDatabaseArg } as ErrorDetails);
+      logger.error({ err: error, procedure, database: rawDatabaseArg, server: serverArg }, 'Error in execute_stored_procedure tool handler');
+      const mcpError = MssqlMcpError.fromError(error, ErrorType.STORED_PROCEDURE_ERROR, { tool: 'execute_stored_procedure', procedure, database: rawDatabaseArg, server: serverArg } as ErrorDetails);
       return {
         isError: true,
         content: [{ 
@@ -137,15 +265,161 @@ mcpServer.registerTool(
   }
 );
 
+// Session tools: pin one connection across calls for temp tables and consistent snapshots
+mcpServer.registerTool(
+  "open_session",
+  {
+    description: "Open a session: a dedicated connection that later execute_query and execute_stored_procedure calls use when given its sessionId. Temp tables (#name) and session settings persist between calls in the same session; with snapshot, every call also reads the same consistent snapshot of the data. Sessions close after a period without calls and the number of open sessions is limited, so close sessions with close_session when done.",
+    inputSchema: openSessionParams,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: false, openWorldHint: false }
+  },
+  async (args: { database?: string; snapshot?: boolean; server?: string }, context) => {
+    logger.info({ tool: 'open_session', arguments: args }, 'MCP open_session tool received request');
+
+    const { database: rawDatabaseArg, snapshot, server: serverArg } = args;
+
+    try {
+      const result: SessionInfo = await serviceFor(serverArg).openSession(rawDatabaseArg, { snapshot });
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error: unknown) {
+      logger.error({ err: error, database: rawDatabaseArg, server: serverArg }, 'Error in open_session tool handler');
+      const mcpError = MssqlMcpError.fromError(error, ErrorType.SESSION_ERROR, { tool: 'open_session', database: rawDatabaseArg, server: serverArg } as ErrorDetails);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: mcpError.message,
+            errorType: mcpError.errorType,
+            details: mcpError.details
+          }, null, 2)
+        }]
+      };
+    }
+  }
+);
+
+mcpServer.registerTool(
+  "close_session",
+  {
+    description: "Close a session opened with open_session. Its temp tables are dropped and its snapshot transaction, if any, is rolled back.",
+    inputSchema: closeSessionParams,
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true, openWorldHint: false }
+  },
+  async (args: { sessionId: string; server?: string }, context) => {
+    logger.info({ tool: 'close_session', arguments: args }, 'MCP close_session tool received request');
+
+    try {
+      const result = await serviceFor(args.server, args.sessionId).closeSession(args.sessionId);
+      return {
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify(result, null, 2)
+        }]
+      };
+    } catch (error: unknown) {
+      logger.error({ err: error, sessionId: args.sessionId, server: args.server }, 'Error in close_session tool handler');
+      const mcpError = MssqlMcpError.fromError(error, ErrorType.SESSION_ERROR, { tool: 'close_session', sessionId: args.sessionId, server: args.server } as ErrorDetails);
+      return {
+        isError: true,
+        content: [{
+          type: "text" as const,
+          text: JSON.stringify({
+            error: mcpError.message,
+            errorType: mcpError.errorType,
+            details: mcpError.details
+          }, null, 2)
+        }]
+      };
+    }
+  }
+);
+
+// Write statement tool, only offered when writes are enabled
+if ((sqlConfig as SqlConfig).enableWrites) {
+  mcpServer.registerTool(
+    "execute_write",
+    {
+      description: "Run a single INSERT, UPDATE, DELETE or MERGE statement. UPDATE and DELETE without a WHERE clause are rejected. Called without confirmationToken it is a dry run: the statement runs in a transaction that is rolled back, and the response reports rowsAffected, a sample of the changed rows before and after, and a confirmationToken. Call again with the same statement, database, parameters and that confirmationToken to commit; the commit is refused if the row count differs from the dry run. Tokens are single-use and expire after a few minutes.",
+      inputSchema: executeWriteParams,
+      annotations: { readOnlyHint: false, destructiveHint: true, openWorldHint: false }
+    },
+    async (args: { statement: string; database?: string; parameters?: QueryParameter[]; confirmationToken?: string; server?: string }, context) => {
+      logger.info({ tool: 'execute_write', arguments: { ...args, confirmationToken: args.confirmationToken ? '[provided]' : undefined } }, 'MCP execute_write tool received request');
+
+      const { statement, database: rawDatabaseArg, parameters, confirmationToken, server: serverArg } = args;
+
+      try {
+        const result: WriteResult = await serviceFor(serverArg).executeWrite(statement, rawDatabaseArg, { parameters, confirmationToken });
+        return {
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify(result, null, 2)
+          }]
+        };
+      } catch (error: unknown) {
+        logger.error({ err: error, statement, database: rawDatabaseArg, server: serverArg }, 'Error in execute_write tool handler');
+        const mcpError = MssqlMcpError.fromError(error, ErrorType.QUERY_ERROR, { tool: 'execute_write', statement, database: rawDatabaseArg, server: serverArg } as ErrorDetails);
+        return {
+          isError: true,
+          content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+              error: mcpError.message,
+              errorType: mcpError.errorType,
+              details: mcpError.details
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+}
+
+// Databases of a server exposed through resource listings: the whitelist, or just its default database
+function listedDatabases(typedConfig: SqlConfig = sqlConfig as SqlConfig): string[] {
+  return typedConfig.allowedDatabases?.length
+    ? typedConfig.allowedDatabases
+    : [typedConfig.database];
+}
+
+// Resource template variables may arrive as arrays and are URI-encoded
+function templateParam(value: string | string[] | undefined): string | undefined {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return raw ? decodeURIComponent(raw) : undefined;
+}
+
+// Completion helper: case-insensitive prefix filter
+function completeFrom(values: string[], prefix: string): string[] {
+  const lowered = (prefix || '').toLowerCase();
+  return values.filter(v => v.toLowerCase().startsWith(lowered));
+}
+
+function schemaResourceError(uri: URL, error: unknown, details: ErrorDetails) {
+  const mcpError = MssqlMcpError.fromError(error, ErrorType.SCHEMA_ERROR, details);
+  return {
+    contents: [{
+      uri: uri.href,
+      text: JSON.stringify({
+        error: mcpError.message,
+        errorType: mcpError.errorType,
+        details: mcpError.details
+      }, null, 2)
+    }]
+  };
+}
+
 // Database schema resource
 server.resource(
   "schema",
   new ResourceTemplate("schema://{database}", {
     list: async () => {
-      const typedConfig = sqlConfig as SqlConfig;
-      const databases = typedConfig.allowedDatabases?.length
-        ? typedConfig.allowedDatabases
-        : [typedConfig.database];
+      const databases = listedDatabases();
       return {
         resources: databases.map(db => ({
           uri: `schema://${db}`,
@@ -154,39 +428,250 @@ server.resource(
       };
     },
     complete: {
-      database: async () => {
-        const typedConfig = sqlConfig as SqlConfig;
-        return typedConfig.allowedDatabases?.length
-          ? typedConfig.allowedDatabases
-          : [typedConfig.database];
-      }
+      database: async () => listedDatabases()
     }
   }),
   async (uri, params: { database?: string | string[] }, context) => {
     const dbParam = params.database;
     const dbIdentifier = Array.isArray(dbParam) ? dbParam[0] || (sqlConfig as SqlConfig).database : (dbParam || (sqlConfig as SqlConfig).database);
+    return readDatabaseSchema(uri, databaseService, dbIdentifier);
+  }
+);
+
+async function readDatabaseSchema(uri: URL, service: DatabaseService, dbIdentifier: string, serverName?: string) {
+  try {
+    const objects = await service.getSchema(dbIdentifier);
+    const tables = objects.filter(o => o.objectType === 'table');
+    const views = objects.filter(o => o.objectType === 'view');
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({ tables, views }, null, 2)
+      }]
+    };
+  } catch (error: unknown) {
+    logger.error({ err: error, database: dbIdentifier, server: serverName }, 'Error in schema resource handler');
+    return schemaResourceError(uri, error, { resource: 'schema', database: dbIdentifier, server: serverName });
+  }
+}
+
+// Database on a named server. Its URIs have the shape of schema://{database}/{schema}, and the
+// first matching template serves a resource, so this one is registered first and hands URIs
+// whose first segment is not a server profile on to the per-schema listing.
+if (serverConfigs.size > 1) {
+  server.resource(
+    "server-schema",
+    new ResourceTemplate("schema://{server}/{database}", {
+      list: async () => ({
+        resources: [...serverConfigs]
+          .filter(([name]) => name !== DEFAULT_SERVER)
+          .flatMap(([name, config]) => listedDatabases(config).map(db => ({
+            uri: `schema://${encodeURIComponent(name)}/${encodeURIComponent(db)}`,
+            name: `Schema: ${name}/${db}`
+          })))
+      }),
+      complete: {
+        server: async (value) => completeFrom([...serverConfigs.keys()], value),
+        database: async (value, context) => {
+          const config = serverConfigs.get((context?.arguments?.server || DEFAULT_SERVER).toLowerCase());
+          return config ? completeFrom(listedDatabases(config), value) : [];
+        }
+      }
+    }),
+    async (uri, params: { server?: string | string[]; database?: string | string[] }, context) => {
+      const first = templateParam(params.server) || '';
+      const second = templateParam(params.database);
+      const service = databaseServices.get(first.toLowerCase());
+      if (service) {
+        return readDatabaseSchema(uri, service, second || serverConfigs.get(first.toLowerCase())!.database, first.toLowerCase());
+      }
+      return readSchemaObjects(uri, first || (sqlConfig as SqlConfig).database, second || 'dbo');
+    }
+  );
+}
+
+// Per-schema object listing: table and view names only, for browsing large databases
+server.resource(
+  "schema-objects",
+  new ResourceTemplate("schema://{database}/{schema}", {
+    list: async () => {
+      const resources = [];
+      for (const db of listedDatabases()) {
+        try {
+          const schemas = new Set((await databaseService.listSchemaObjects(db)).map(o => o.schema));
+          for (const schemaName of schemas) {
+            resources.push({
+              uri: `schema://${encodeURIComponent(db)}/${encodeURIComponent(schemaName)}`,
+              name: `Schema: ${db}.${schemaName}`
+            });
+          }
+        } catch (error: unknown) {
+          logger.warn({ err: error, database: db }, 'Could not list schemas for resource listing');
+        }
+      }
+      return { resources };
+    },
+    complete: {
+      database: async (value) => completeFrom(listedDatabases(), value),
+      schema: async (value, context) => {
+        const db = context?.arguments?.database || (sqlConfig as SqlConfig).database;
+        const objects = await databaseService.listSchemaObjects(db);
+        return completeFrom([...new Set(objects.map(o => o.schema))], value);
+      }
+    }
+  }),
+  async (uri, params: { database?: string | string[]; schema?: string | string[] }, context) => {
+    const dbIdentifier = templateParam(params.database) || (sqlConfig as SqlConfig).database;
+    const schemaName = templateParam(params.schema) || 'dbo';
+    return readSchemaObjects(uri, dbIdentifier, schemaName);
+  }
+);
+
+async function readSchemaObjects(uri: URL, dbIdentifier: string, schemaName: string) {
+  try {
+    const objects = (await databaseService.listSchemaObjects(dbIdentifier))
+      .filter(o => o.schema.toLowerCase() === schemaName.toLowerCase());
+    return {
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify({
+          database: dbIdentifier,
+          schema: schemaName,
+          tables: objects.filter(o => o.objectType === 'table').map(o => o.name),
+          views: objects.filter(o => o.objectType === 'view').map(o => o.name)
+        }, null, 2)
+      }]
+    };
+  } catch (error: unknown) {
+    logger.error({ err: error, database: dbIdentifier, schema: schemaName }, 'Error in schema-objects resource handler');
+    return schemaResourceError(uri, error, { resource: 'schema-objects', database: dbIdentifier, schema: schemaName });
+  }
+}
+
+// Single table or view: full column, key and index detail, loaded and cached on its own
+server.resource(
+  "table-schema",
+  new ResourceTemplate("schema://{database}/{schema}/{table}", {
+    // Not listed: the per-schema resources name the tables, and completion fills in the URI
+    list: undefined,
+    complete: {
+      database: async (value) => completeFrom(listedDatabases(), value),
+      schema: async (value, context) => {
+        const db = context?.arguments?.database || (sqlConfig as SqlConfig).database;
+        const objects = await databaseService.listSchemaObjects(db);
+        return completeFrom([...new Set(objects.map(o => o.schema))], value);
+      },
+      table: async (value, context) => {
+        const db = context?.arguments?.database || (sqlConfig as SqlConfig).database;
+        const schemaName = (context?.arguments?.schema || 'dbo').toLowerCase();
+        const objects = await databaseService.listSchemaObjects(db);
+        return completeFrom(objects.filter(o => o.schema.toLowerCase() === schemaName).map(o => o.name), value);
+      }
+    }
+  }),
+  async (uri, params: { database?: string | string[]; schema?: string | string[]; table?: string | string[] }, context) => {
+    const dbIdentifier = templateParam(params.database) || (sqlConfig as SqlConfig).database;
+    const schemaName = templateParam(params.schema) || 'dbo';
+    const tableName = templateParam(params.table) || '';
 
     try {
-      const tables = await databaseService.getSchema(dbIdentifier);
+      const table = await databaseService.getTableSchema(dbIdentifier, schemaName, tableName);
       return {
         contents: [{
           uri: uri.href,
-          text: JSON.stringify({ tables }, null, 2)
+          text: JSON.stringify(table, null, 2)
         }]
       };
     } catch (error: unknown) {
-      logger.error({ err: error, database: dbIdentifier }, 'Error in schema resource handler');
-      const mcpError = MssqlMcpError.fromError(error, ErrorType.SCHEMA_ERROR, { resource: 'schema', database: dbIdentifier } as ErrorDetails);
+      logger.error({ err: error, database: dbIdentifier, schema: schemaName, table: tableName }, 'Error in table-schema resource handler');
+      return schemaResourceError(uri, error, { resource: 'table-schema', database: dbIdentifier, schema: schemaName, table: tableName });
+    }
+  }
+);
+
+// Stored procedures of a database with their parameter signatures
+server.resource(
+  "procedures",
+  new ResourceTemplate("procedures://{database}", {
+    list: async () => ({
+      resources: listedDatabases().map(db => ({
+        uri: `procedures://${encodeURIComponent(db)}`,
+        name: `Procedures: ${db}`
+      }))
+    }),
+    complete: {
+      database: async (value) => completeFrom(listedDatabases(), value)
+    }
+  }),
+  async (uri, params: { database?: string | string[] }, context) => {
+    const dbIdentifier = templateParam(params.database) || (sqlConfig as SqlConfig).database;
+
+    try {
+      const procedures = await databaseService.listProcedures(dbIdentifier);
       return {
         contents: [{
           uri: uri.href,
-          text: JSON.stringify({
-            error: mcpError.message,
-            errorType: mcpError.errorType,
-            details: mcpError.details
-          }, null, 2)
+          text: JSON.stringify({ database: dbIdentifier, procedures }, null, 2)
+        }]
+      };
+    } catch (error: unknown) {
+      logger.error({ err: error, database: dbIdentifier }, 'Error in procedures resource handler');
+      return schemaResourceError(uri, error, { resource: 'procedures', database: dbIdentifier });
+    }
+  }
+);
+
+// Single stored procedure: parameters with defaults, and the procedure description
+server.resource(
+  "procedure",
+  new ResourceTemplate("procedures://{database}/{schema}/{name}", {
+    list: async () => {
+      const resources = [];
+      for (const db of listedDatabases()) {
+        try {
+          for (const p of await databaseService.listProcedures(db)) {
+            resources.push({
+              uri: `procedures://${encodeURIComponent(db)}/${encodeURIComponent(p.schema)}/${encodeURIComponent(p.name)}`,
+              name: `Procedure: ${db}.${p.fullName}`
+            });
+          }
+        } catch (error: unknown) {
+          logger.warn({ err: error, database: db }, 'Could not list procedures for resource listing');
+        }
+      }
+      return { resources };
+    },
+    complete: {
+      database: async (value) => completeFrom(listedDatabases(), value),
+      schema: async (value, context) => {
+        const db = context?.arguments?.database || (sqlConfig as SqlConfig).database;
+        const procedures = await databaseService.listProcedures(db);
+        return completeFrom([...new Set(procedures.map(p => p.schema))], value);
+      },
+      name: async (value, context) => {
+        const db = context?.arguments?.database || (sqlConfig as SqlConfig).database;
+        const schemaName = (context?.arguments?.schema || 'dbo').toLowerCase();
+        const procedures = await databaseService.listProcedures(db);
+        return completeFrom(procedures.filter(p => p.schema.toLowerCase() === schemaName).map(p => p.name), value);
+      }
+    }
+  }),
+  async (uri, params: { database?: string | string[]; schema?: string | string[]; name?: string | string[] }, context) => {
+    const dbIdentifier = templateParam(params.database) || (sqlConfig as SqlConfig).database;
+    const schemaName = templateParam(params.schema) || 'dbo';
+    const procedureName = templateParam(params.name) || '';
+
+    try {
+      const procedure = await databaseService.getProcedureSchema(dbIdentifier, schemaName, procedureName);
+      return {
+        contents: [{
+          uri: uri.href,
+          text: JSON.stringify(procedure, null, 2)
         }]
       };
+    } catch (error: unknown) {
+      logger.error({ err: error, database: dbIdentifier, schema: schemaName, procedure: procedureName }, 'Error in procedure resource handler');
+      return schemaResourceError(uri, error, { resource: 'procedure', database: dbIdentifier, schema: schemaName, procedure: procedureName });
     }
   }
 );
@@ -194,11 +679,43 @@ server.resource(
 // Create transport with debug logging
 const transport = new StdioServerTransport();
 
+// Config file watched for changes, if any
+const configFile = process.env.SQL_CONFIG_FILE || '';
+
+/**
+ * Re-read the config file, environment and access policy, and apply the reloadable settings to
+ * every server without touching connection pools. An invalid configuration or policy is logged
+ * and the current one kept.
+ */
+function reloadConfiguration(trigger: string): void {
+  try {
+    const next = loadSqlConfig();
+    const policy = next.policyFile ? loadAccessPolicy(next.policyFile) : {};
+    const { changed, restartRequired } = applyReloadedSqlConfig(next);
+    serverConfigs = buildServerConfigs(sqlConfig as SqlConfig);
+    for (const [name, service] of databaseServices) {
+      service.applySettings(serverConfigs.get(name)!, policy);
+    }
+    logger.level = sqlConfig.logLevel;
+    if (restartRequired.length > 0) {
+      logger.warn({ settings: restartRequired }, 'Changed settings take effect only after a restart');
+    }
+    logger.info({ trigger, changed }, 'Configuration reloaded');
+  } catch (error: unknown) {
+    logger.error({ err: error, trigger }, 'Configuration reload failed; keeping the current configuration');
+  }
+}
+
 async function cleanup() {
   logger.info('Shutting down server, cleaning up resources...');
-  if (databaseService) {
-    await databaseService.closePool();
+  if (configFile) {
+    unwatchFile(configFile);
   }
+  await Promise.all([...databaseServices.values()].map(async service => {
+    await service.closeAllSessions();
+    await service.closeDatabasePools();
+    await service.closePool();
+  }));
   logger.info('Cleanup complete');
   return true;
 }
@@ -209,6 +726,11 @@ process.on('SIGINT', async () => {
   process.exit(cleanupSuccess ? 0 : 1);
 });
 
+process.on('SIGHUP', () => {
+  logger.info('Received SIGHUP signal, reloading configuration');
+  reloadConfiguration('SIGHUP');
+});
+
 process.on('SIGTERM', async () => {
   logger.info('Received SIGTERM signal');
   const cleanupSuccess = await cleanup();
@@ -224,10 +746,25 @@ async function main() {
     server: typedSqlConfig.server, 
     port: typedSqlConfig.port, 
     database: typedSqlConfig.database,
+    profiles: Object.keys(typedSqlConfig.profiles ?? {}),
+    configFile: configFile || undefined,
     logLevel: typedSqlConfig.logLevel
   }, 'SQL Server configuration loaded');
 
-  databaseService = new DatabaseService(typedSqlConfig, logger);
+  // Named servers connect on first use, so one that is down does not stop the others
+  for (const [name, config] of serverConfigs) {
+    const service = new DatabaseService(config, name === DEFAULT_SERVER ? logger : logger.child({ server: name }));
+    databaseServices.set(name, service);
+  }
+  databaseService = databaseServices.get(DEFAULT_SERVER)!;
+
+  if (configFile) {
+    watchFile(configFile, { persistent: false, interval: 2000 }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        reloadConfiguration('config file change');
+      }
+    });
+  }
 
   process.on('uncaughtException', (error: Error) => {
     logger.fatal({ err: error }, 'UNCAUGHT EXCEPTION');
@@ -263,7 +800,8 @@ async function main() {
     await server.connect(transport);
 
     logger.info('MCP server ready');
-    logger.info({ tools: ['execute_query', 'execute_stored_procedure'], resources: ['schema://{database}'] }, 'Available MCP tools and resources');
+    const tools = ['execute_query', 'explain_query', 'execute_stored_procedure', 'open_session', 'close_session', ...(typedSqlConfig.enableWrites ? ['execute_write'] : [])];
+    logger.info({ tools, resources: ['schema://{database}', ...(serverConfigs.size > 1 ? ['schema://{server}/{database}'] : []), 'schema://{database}/{schema}', 'schema://{database}/{schema}/{table}', 'procedures://{database}', 'procedures://{database}/{schema}/{name}'] }, 'Available MCP tools and resources');
   } catch (error: unknown) {
     logger.fatal({ err: error }, 'Critical: Failed to start MCP server transport');
     await cleanup();
@@ -0,0 +1,247 @@
+// Compact summaries of SQL Server showplan XML (SET SHOWPLAN_XML ON output).
+// The raw plan is far too verbose to hand to an LLM, so it is reduced to the
+// operator tree plus the signals that usually explain a slow query.
+
+interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+}
+
+export interface PlanOperator {
+  nodeId: number;
+  physicalOp: string;
+  logicalOp: string;
+  estimatedRows: number;
+  estimatedSubtreeCost: number;
+  // Share of the statement's total cost spent in this operator alone (excluding its inputs)
+  costPercent: number;
+  accessType?: 'seek' | 'scan' | 'lookup';
+  object?: string;
+  parallel?: boolean;
+  warnings?: string[];
+  children?: PlanOperator[];
+}
+
+export interface MissingIndexHint {
+  impact: number;
+  table: string;
+  equalityColumns: string[];
+  inequalityColumns: string[];
+  includeColumns: string[];
+}
+
+export interface PlanStatement {
+  statement: string;
+  statementType?: string;
+  estimatedRows: number;
+  estimatedCost: number;
+  missingIndexes?: MissingIndexHint[];
+  warnings?: string[];
+  plan?: PlanOperator;
+}
+
+export interface PlanSummary {
+  statements: PlanStatement[];
+}
+
+// Longest statement text echoed back in a summary
+const MAX_STATEMENT_TEXT = 500;
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+/**
+ * Minimal XML element parser. Showplan XML is machine-generated and well-formed, and only
+ * element names and attributes matter here, so text nodes, comments and declarations are skipped.
+ * Namespace prefixes are dropped from element names.
+ */
+function parseXml(xml: string): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack: XmlElement[] = [root];
+  const tagPattern = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<(\/?)([A-Za-z_][\w.:-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+  const attributePattern = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tagPattern.exec(xml)) !== null) {
+    const [, closing, rawName, rawAttributes, selfClosing] = match;
+    if (!rawName) continue;
+    const name = rawName.includes(':') ? rawName.split(':').pop()! : rawName;
+
+    if (closing) {
+      if (stack.length > 1) stack.pop();
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    let attr: RegExpExecArray | null;
+    attributePattern.lastIndex = 0;
+    while ((attr = attributePattern.exec(rawAttributes)) !== null) {
+      attributes[attr[1]] = decodeEntities(attr[2] ?? attr[3] ?? '');
+    }
+
+    const element: XmlElement = { name, attributes, children: [] };
+    stack[stack.length - 1].children.push(element);
+    if (!selfClosing) stack.push(element);
+  }
+  return root;
+}
+
+/**
+ * Depth-first search for descendants named `name`, not descending into `stopAt` elements.
+ */
+function findDescendants(element: XmlElement, name: string, stopAt?: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) {
+      found.push(child);
+    } else if (child.name !== stopAt) {
+      found.push(...findDescendants(child, name, stopAt));
+    }
+  }
+  return found;
+}
+
+function toNumber(value: string | undefined): number {
+  const parsed = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number, digits: number): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
+
+function stripBrackets(name: string | undefined): string {
+  return (name || '').replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Render warning elements (PlanAffectingConvert, SpillToTempDb, NoJoinPredicate, ...) as short strings.
+ */
+function summarizeWarnings(warnings: XmlElement | undefined): string[] {
+  if (!warnings) return [];
+  const result = Object.entries(warnings.attributes)
+    .filter(([, value]) => value === 'true' || value === '1')
+    .map(([key]) => key);
+  for (const warning of warnings.children) {
+    const details = Object.entries(warning.attributes).map(([key, value]) => `${key}=${value}`);
+    const columns = findDescendants(warning, 'ColumnReference').map(c => stripBrackets(c.attributes.Column)).filter(Boolean);
+    if (columns.length) details.push(`columns=${columns.join(',')}`);
+    result.push(details.length ? `${warning.name} (${details.join(', ')})` : warning.name);
+  }
+  return result;
+}
+
+function accessTypeOf(physicalOp: string, operatorElement: XmlElement | undefined): PlanOperator['accessType'] {
+  if (/lookup/i.test(physicalOp) || operatorElement?.attributes.Lookup === 'true' || operatorElement?.attributes.Lookup === '1') return 'lookup';
+  if (/seek/i.test(physicalOp)) return 'seek';
+  if (/scan/i.test(physicalOp)) return 'scan';
+  return undefined;
+}
+
+function formatObject(object: XmlElement | undefined): string | undefined {
+  if (!object) return undefined;
+  const { Database, Schema, Table, Index } = object.attributes;
+  const name = [Database, Schema, Table].filter(Boolean).join('.');
+  if (!name) return undefined;
+  return Index ? `${name}.${Index}` : name;
+}
+
+function summarizeRelOp(relOp: XmlElement, statementCost: number): PlanOperator {
+  const attrs = relOp.attributes;
+  const physicalOp = attrs.PhysicalOp || 'Unknown';
+  const subtreeCost = toNumber(attrs.EstimatedTotalSubtreeCost);
+
+  const operatorElement = relOp.children.find(c => !['OutputList', 'Warnings', 'MemoryFractions', 'RunTimeInformation', 'RunTimePartitionSummary', 'InternalInfo'].includes(c.name));
+  const childRelOps = operatorElement ? findDescendants(operatorElement, 'RelOp', 'RelOp') : [];
+  const children = childRelOps.map(child => summarizeRelOp(child, statementCost));
+  const object = operatorElement ? findDescendants(operatorElement, 'Object', 'RelOp')[0] : undefined;
+
+  const ownCost = Math.max(0, subtreeCost - children.reduce((sum, child) => sum + child.estimatedSubtreeCost, 0));
+  const warnings = summarizeWarnings(relOp.children.find(c => c.name === 'Warnings'));
+  const accessType = accessTypeOf(physicalOp, operatorElement);
+  const objectName = formatObject(object);
+
+  return {
+    nodeId: toNumber(attrs.NodeId),
+    physicalOp,
+    logicalOp: attrs.LogicalOp || physicalOp,
+    estimatedRows: round(toNumber(attrs.EstimateRows), 2),
+    estimatedSubtreeCost: round(subtreeCost, 6),
+    costPercent: statementCost > 0 ? round((ownCost / statementCost) * 100, 1) : 0,
+    ...(accessType ? { accessType } : {}),
+    ...(objectName ? { object: objectName } : {}),
+    ...(attrs.Parallel === 'true' || attrs.Parallel === '1' ? { parallel: true } : {}),
+    ...(warnings.length ? { warnings } : {}),
+    ...(children.length ? { children } : {}),
+  };
+}
+
+function summarizeMissingIndexes(queryPlan: XmlElement): MissingIndexHint[] {
+  const hints: MissingIndexHint[] = [];
+  for (const group of findDescendants(queryPlan, 'MissingIndexGroup', 'RelOp')) {
+    for (const index of group.children.filter(c => c.name === 'MissingIndex')) {
+      const columnsFor = (usage: string) => index.children
+        .filter(c => c.name === 'ColumnGroup' && c.attributes.Usage === usage)
+        .flatMap(c => c.children.map(col => stripBrackets(col.attributes.Name)));
+      hints.push({
+        impact: round(toNumber(group.attributes.Impact), 1),
+        table: [index.attributes.Database, index.attributes.Schema, index.attributes.Table].filter(Boolean).join('.'),
+        equalityColumns: columnsFor('EQUALITY'),
+        inequalityColumns: columnsFor('INEQUALITY'),
+        includeColumns: columnsFor('INCLUDE'),
+      });
+    }
+  }
+  return hints;
+}
+
+/**
+ * All operators of a plan tree in depth-first order.
+ */
+export function flattenPlanOperators(root: PlanOperator): PlanOperator[] {
+  return [root, ...(root.children ?? []).flatMap(flattenPlanOperators)];
+}
+
+/**
+ * Reduce showplan XML to a compact JSON summary: per statement, its estimated cost and rows,
+ * missing-index hints, plan warnings and the operator tree.
+ */
+export function summarizeShowplan(xml: string): PlanSummary {
+  const document = parseXml(xml);
+  const statements: PlanStatement[] = [];
+
+  for (const stmt of findDescendants(document, 'StmtSimple')) {
+    const attrs = stmt.attributes;
+    const estimatedCost = toNumber(attrs.StatementSubTreeCost);
+    const text = (attrs.StatementText || '').trim();
+    const queryPlan = stmt.children.find(c => c.name === 'QueryPlan');
+    const rootRelOp = queryPlan?.children.find(c => c.name === 'RelOp');
+    const missingIndexes = queryPlan ? summarizeMissingIndexes(queryPlan) : [];
+    const warnings = summarizeWarnings(queryPlan?.children.find(c => c.name === 'Warnings'));
+
+    statements.push({
+      statement: text.length > MAX_STATEMENT_TEXT ? text.substring(0, MAX_STATEMENT_TEXT) + '...' : text,
+      ...(attrs.StatementType ? { statementType: attrs.StatementType } : {}),
+      estimatedRows: round(toNumber(attrs.StatementEstRows), 2),
+      estimatedCost: round(estimatedCost, 6),
+      ...(missingIndexes.length ? { missingIndexes } : {}),
+      ...(warnings.length ? { warnings } : {}),
+      ...(rootRelOp ? { plan: summarizeRelOp(rootRelOp, estimatedCost) } : {}),
+    });
+  }
+
+  return { statements };
+}
@@ -0,0 +1,101 @@
+// Parsing of SQL Server type declarations as callers write them in parameter `type` strings,
+// e.g. varchar(50), nvarchar(max), decimal(18,4), datetime2(3) or sysname.
+
+export interface SqlTypeSpec {
+  // Lowercased type name, with alias types resolved to their base type
+  typeName: string;
+  length?: number | 'max';
+  precision?: number;
+  scale?: number;
+}
+
+// Human-readable list of accepted forms, used in validation errors
+export const SUPPORTED_TYPE_FORMS: readonly string[] = [
+  'a bare type name, e.g. int, bit, date, uniqueidentifier',
+  'char(n), nchar(n), binary(n)',
+  'varchar(n|max), nvarchar(n|max), varbinary(n|max)',
+  'decimal(p[,s]), numeric(p[,s])',
+  'float(n)',
+  'time(s), datetime2(s), datetimeoffset(s)',
+  'alias types: sysname, sql_variant',
+];
+
+// Alias types and the base type they are declared as
+const ALIASES: Record<string, SqlTypeSpec> = {
+  sysname: { typeName: 'nvarchar', length: 128 },
+  sql_variant: { typeName: 'variant' },
+};
+
+// Maximum declared length per length-typed type; `max` is only valid for the var* types
+const MAX_LENGTHS: Record<string, { limit: number; allowsMax: boolean }> = {
+  char: { limit: 8000, allowsMax: false },
+  varchar: { limit: 8000, allowsMax: true },
+  nchar: { limit: 4000, allowsMax: false },
+  nvarchar: { limit: 4000, allowsMax: true },
+  binary: { limit: 8000, allowsMax: false },
+  varbinary: { limit: 8000, allowsMax: true },
+};
+
+const PRECISION_TYPES: ReadonlySet<string> = new Set(['decimal', 'numeric']);
+const FRACTIONAL_SECONDS_TYPES: ReadonlySet<string> = new Set(['time', 'datetime2', 'datetimeoffset']);
+
+function parseInteger(text: string): number | null {
+  return /^\d+$/.test(text) ? parseInt(text, 10) : null;
+}
+
+/**
+ * Parse a type declaration into its name and facets. Names are case-insensitive and may be
+ * bracketed. Facets are range-checked the way SQL Server checks them in a DECLARE.
+ * Whether the name itself is a known type is left to the caller. Returns `{ error }` with a
+ * short reason when the declaration is malformed.
+ */
+export function parseSqlTypeSpec(spec: string): SqlTypeSpec | { error: string } {
+  const match = /^\s*\[?([A-Za-z_][A-Za-z0-9_]*)\]?\s*(?:\(([^()]*)\))?\s*$/.exec(spec);
+  if (!match) {
+    return { error: 'expected a type name optionally followed by (length), (max), (precision[, scale]) or (scale)' };
+  }
+  const typeName = match[1].toLowerCase();
+  const args = match[2] === undefined ? [] : match[2].split(',').map(a => a.trim().toLowerCase());
+
+  if (ALIASES[typeName]) {
+    return args.length ? { error: `alias type '${typeName}' takes no arguments` } : { ...ALIASES[typeName] };
+  }
+  if (args.length === 0) {
+    return { typeName };
+  }
+
+  if (MAX_LENGTHS[typeName]) {
+    const { limit, allowsMax } = MAX_LENGTHS[typeName];
+    if (args.length !== 1) return { error: `${typeName} takes a single length` };
+    if (args[0] === 'max') {
+      return allowsMax ? { typeName, length: 'max' } : { error: `${typeName} does not accept max (only varchar, nvarchar and varbinary do)` };
+    }
+    const length = parseInteger(args[0]);
+    if (length === null || length < 1 || length > limit) return { error: `${typeName} length must be between 1 and ${limit}${allowsMax ? ', or max' : ''}` };
+    return { typeName, length };
+  }
+
+  if (PRECISION_TYPES.has(typeName)) {
+    if (args.length > 2) return { error: `${typeName} takes a precision and an optional scale` };
+    const precision = parseInteger(args[0]);
+    if (precision === null || precision < 1 || precision > 38) return { error: `${typeName} precision must be between 1 and 38` };
+    const scale = args.length === 2 ? parseInteger(args[1]) : 0;
+    if (scale === null || scale > precision) return { error: `${typeName} scale must be between 0 and the precision (${precision})` };
+    return { typeName, precision, scale };
+  }
+
+  if (typeName === 'float') {
+    // float(1-24) is stored as real, float(25-53) as float
+    const mantissa = args.length === 1 ? parseInteger(args[0]) : null;
+    if (mantissa === null || mantissa < 1 || mantissa > 53) return { error: 'float takes a mantissa size between 1 and 53' };
+    return { typeName: mantissa <= 24 ? 'real' : 'float' };
+  }
+
+  if (FRACTIONAL_SECONDS_TYPES.has(typeName)) {
+    const scale = args.length === 1 ? parseInteger(args[0]) : null;
+    if (scale === null || scale > 7) return { error: `${typeName} fractional-seconds scale must be between 0 and 7` };
+    return { typeName, scale };
+  }
+
+  return { error: `${typeName} takes no length, precision or scale` };
+}
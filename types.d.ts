@@ -1,31 +1,3 @@
-declare module './config.js' {
-  export const sqlConfig: {
-    server: string;
-    port: number;
-    user: string;
-    password: string;
-    database: string;
-    options: {
-      encrypt: boolean;
-      trustServerCertificate: boolean;
-    };
-    connectionTimeout: number;
-    requestTimeout: number;
-    pool: {
-      max: number;
-      min: number;
-      idleTimeoutMillis: number;
-    };
-    maxRetries: number;
-    initialRetryDelay: number;
-    maxRetryDelay: number;
-    schemaCacheTTL: number;
-    maxRows: number;
-    allowedDatabases: string[];
-    logLevel: string;
-  };
-}
-
 // Augment McpServer with registerTool — exists at runtime in SDK v1.23+ but is
 // missing from the published .d.ts type declarations. We use a standalone interface
 // and cast to it, because module augmentation still triggers the deep-inference
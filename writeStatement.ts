@@ -0,0 +1,243 @@
+// Validation of the single INSERT/UPDATE/DELETE/MERGE statement run by execute_write.
+// node-sql-parser reads INSERT, UPDATE and DELETE; MERGE is not in its T-SQL grammar and is
+// checked on its tokens instead.
+import nodeParser from 'node-sql-parser';
+import { resolveTableReference, SqlAst, TableReference } from './queryRewriter.js';
+import {
+  findReadOnlyViolation,
+  isName,
+  readNameChain,
+  tokenizeSql,
+  FORBIDDEN_KEYWORDS,
+  REMOTE_ROWSET_FUNCTIONS,
+  SqlToken
+} from './readOnlyValidator.js';
+
+export type WriteStatementType = 'insert' | 'update' | 'delete' | 'merge';
+
+export interface WriteStatement {
+  type: WriteStatementType;
+  // Table the statement writes to, with aliases resolved
+  target: TableReference;
+  // Parsed statement; null for MERGE
+  ast: SqlAst | null;
+}
+
+// Keywords a MERGE needs in its WHEN clauses; every other statement keyword is rejected
+const MERGE_ACTION_KEYWORDS: ReadonlySet<string> = new Set(['MERGE', 'INSERT', 'UPDATE', 'DELETE', 'SET']);
+
+/**
+ * Table an UPDATE or DELETE writes to. `UPDATE o ... FROM dbo.Orders o` names the target by
+ * the alias of a FROM entry, so an unqualified target is looked up among the FROM aliases first.
+ */
+function resolveWriteTarget(statement: SqlAst): TableReference | null {
+  const target = Array.isArray(statement.table) ? statement.table[0] : null;
+  if (!target || typeof target.table !== 'string') {
+    return null;
+  }
+  if (!target.db && Array.isArray(statement.from)) {
+    const aliased = statement.from.find((item: SqlAst) => typeof item?.as === 'string' && item.as.toLowerCase() === target.table.toLowerCase());
+    if (aliased) return resolveTableReference(aliased);
+  }
+  return resolveTableReference(target);
+}
+
+/**
+ * Target of a MERGE statement, checked on its tokens: one statement starting with MERGE,
+ * with USING and WHEN clauses, and no keyword of another statement type outside the WHEN actions,
+ * no OUTPUT clause, remote rowset function or linked-server name. A WHEN NOT MATCHED BY SOURCE
+ * action needs an AND condition, as without one it changes every target row missing from the source.
+ */
+function analyzeMergeStatement(tokens: SqlToken[]): WriteStatement | { error: string } {
+  let depth = 0;
+  const seen = new Set<string>();
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type === 'symbol') {
+      if (token.text === '(') depth++;
+      if (token.text === ')' && --depth < 0) return { error: 'The statement has a closing parenthesis without an opening one' };
+      if (token.text === ';' && depth === 0 && i < tokens.length - 1) return { error: 'Only one statement can be run at a time' };
+      continue;
+    }
+    if (isName(token) && !(tokens[i - 1]?.type === 'symbol' && tokens[i - 1].text === '.')) {
+      const chain = readNameChain(tokens, i);
+      if (chain.parts >= 4) {
+        return { error: `'${tokens.slice(i, chain.end).map(t => t.raw).join('')}' is a four-part name on a linked server` };
+      }
+    }
+    if (token.type !== 'word') continue;
+    seen.add(token.text);
+    if (token.text === 'OUTPUT') {
+      return { error: 'MERGE statements with an OUTPUT clause are not supported' };
+    }
+    if (token.text === 'WHEN' && tokens.slice(i + 1, i + 6).map(t => t.text).join(' ') === 'NOT MATCHED BY SOURCE THEN') {
+      return { error: 'WHEN NOT MATCHED BY SOURCE without an AND condition would change every target row missing from the source' };
+    }
+    if (REMOTE_ROWSET_FUNCTIONS.has(token.text.toLowerCase())) {
+      return { error: `${token.text} runs a statement against an external data source or linked server` };
+    }
+    if (FORBIDDEN_KEYWORDS.has(token.text) && !MERGE_ACTION_KEYWORDS.has(token.text)) {
+      return { error: `${token.text} is not allowed in a MERGE statement (bracket it, e.g. [${token.text.toLowerCase()}], if it is a column or table name)` };
+    }
+  }
+  if (depth !== 0) {
+    return { error: 'The statement has an opening parenthesis without a closing one' };
+  }
+  if (!seen.has('USING') || !seen.has('WHEN')) {
+    return { error: 'A MERGE statement needs USING and WHEN clauses' };
+  }
+
+  // MERGE [TOP (n)] [INTO] target
+  let i = 1;
+  if (tokens[i]?.text === 'TOP') {
+    for (i++, depth = 0; i < tokens.length; i++) {
+      if (tokens[i].text === '(') depth++;
+      if (tokens[i].text === ')' && --depth === 0) { i++; break; }
+    }
+  }
+  if (tokens[i]?.type === 'word' && tokens[i].text === 'INTO') i++;
+  if (!isName(tokens[i])) {
+    return { error: 'The MERGE target table could not be read' };
+  }
+  const names = tokens.slice(i, readNameChain(tokens, i).end).filter(isName).map(t => (t.type === 'identifier' ? t.text : t.raw));
+  const table = names.pop()!;
+  const schema = names.pop();
+  const database = names.pop();
+  return {
+    type: 'merge',
+    target: { database, schema, table, exposedName: table },
+    ast: null
+  };
+}
+
+/**
+ * Validate a statement for execute_write: exactly one INSERT, UPDATE, DELETE or MERGE, with a
+ * WHERE clause on UPDATE and DELETE, writing to a local table and reading no external data.
+ * Returns the statement's type and target, or `{ error }` describing why it is rejected.
+ */
+export function analyzeWriteStatement(statement: string): WriteStatement | { error: string } {
+  let ast: SqlAst | SqlAst[];
+  try {
+    ast = new nodeParser.Parser().astify(statement, { database: 'transactsql' }) as SqlAst | SqlAst[];
+  } catch (parseError: unknown) {
+    const tokens = tokenizeSql(statement);
+    if (Array.isArray(tokens) && tokens[0]?.type === 'word' && tokens[0].text === 'MERGE') {
+      return analyzeMergeStatement(tokens);
+    }
+    return { error: `Invalid SQL syntax: ${parseError instanceof Error ? parseError.message : String(parseError)}` };
+  }
+
+  const statements = Array.isArray(ast) ? ast : [ast];
+  if (statements.length !== 1) {
+    return { error: 'Only one statement can be run at a time' };
+  }
+  const [parsed] = statements;
+  if (parsed.type !== 'insert' && parsed.type !== 'update' && parsed.type !== 'delete') {
+    return { error: `Only INSERT, UPDATE, DELETE and MERGE statements can be run, not ${String(parsed.type).toUpperCase()}${parsed.type === 'select' ? '; use execute_query for SELECT' : ''}` };
+  }
+  if (parsed.type !== 'insert' && !parsed.where) {
+    return { error: `${parsed.type.toUpperCase()} without a WHERE clause would change every row of the table` };
+  }
+
+  const violation = findReadOnlyViolation([parsed]);
+  if (violation) {
+    return { error: violation.reason };
+  }
+  const target = parsed.type === 'insert' ? resolveTableReference(parsed.table?.[0]) : resolveWriteTarget(parsed);
+  if (!target) {
+    return { error: 'The target table of the statement could not be read' };
+  }
+  return { type: parsed.type, target, ast: parsed };
+}
+
+const columnRef = (column: string, table: string | null = null): SqlAst =>
+  ({ type: 'column_ref', table, db: null, schema: null, column, collate: null });
+
+// FROM entry for a table; the T-SQL grammar keeps two-part names as `db.table`
+function fromEntry(table: TableReference): SqlAst {
+  return table.database
+    ? { db: table.database, schema: table.schema ?? 'dbo', table: table.table, as: null }
+    : { db: table.schema ?? null, table: table.table, as: null };
+}
+
+function sampleSelect(columns: string[], qualifier: string | null, from: SqlAst[], where: SqlAst | null, rows: number, orderBy?: { column: string; type: 'ASC' | 'DESC' }): SqlAst {
+  return {
+    with: null,
+    type: 'select',
+    options: null,
+    distinct: null,
+    columns: columns.map(column => ({ expr: columnRef(column, qualifier), as: null })),
+    into: { position: null },
+    from,
+    for: null,
+    where,
+    groupby: null,
+    having: null,
+    top: { value: rows, percent: null, parentheses: true },
+    orderby: orderBy ? [{ expr: columnRef(orderBy.column, qualifier), type: orderBy.type }] : null,
+    limit: null
+  };
+}
+
+/**
+ * SELECT of up to `rows` rows an UPDATE or DELETE is about to change: the target's `columns`
+ * over the statement's own FROM clause (or target) and WHERE clause, keeping its CTEs.
+ */
+export function buildAffectedRowsSelect(write: WriteStatement, columns: string[], rows: number): SqlAst {
+  const statement = write.ast!;
+  const from = Array.isArray(statement.from) && statement.from.length > 0 ? statement.from : statement.table;
+  return { ...sampleSelect(columns, write.target.exposedName, from, statement.where, rows), with: statement.with ?? null };
+}
+
+/**
+ * SELECTs whose select lists are the values a parsed INSERT or UPDATE writes, named by the
+ * columns they go to, so their lineage can be traced like a query's: an UPDATE's SET expressions
+ * over its FROM clause (or target), an INSERT's SELECT, or each row of its VALUES list.
+ * A DELETE writes no values and gives none.
+ */
+export function buildWrittenValuesSelects(write: WriteStatement): SqlAst[] {
+  const statement = write.ast!;
+  const select = (columns: SqlAst[], from: SqlAst[] | null): SqlAst =>
+    ({ with: statement.with ?? null, type: 'select', options: null, distinct: null, columns, into: { position: null }, from, for: null, where: null, groupby: null, having: null, top: null, orderby: null, limit: null });
+
+  if (write.type === 'update') {
+    const from = Array.isArray(statement.from) && statement.from.length > 0 ? statement.from : statement.table;
+    return [select((statement.set ?? []).map((item: SqlAst) => ({ expr: item.value, as: item.column })), from)];
+  }
+  if (write.type === 'insert') {
+    if (statement.values?.type === 'select') {
+      return [statement.values];
+    }
+    const columns: unknown[] = Array.isArray(statement.columns) ? statement.columns : [];
+    return (Array.isArray(statement.values) ? statement.values : []).map((row: SqlAst) =>
+      select((Array.isArray(row?.value) ? row.value : []).map((expr: SqlAst, i: number) => ({ expr, as: typeof columns[i] === 'string' ? columns[i] : null })), null));
+  }
+  return [];
+}
+
+/**
+ * SELECT of the rows of `table` whose key columns equal one of the given parameter tuples,
+ * e.g. `WHERE (Id = @k0_0) OR (Id = @k1_0)`.
+ */
+export function buildKeyLookupSelect(table: TableReference, columns: string[], keyColumns: string[], keyParameters: string[][]): SqlAst {
+  const where = keyParameters
+    .map((names): SqlAst => ({
+      ...keyColumns
+        .map((column, i): SqlAst => ({ type: 'binary_expr', operator: '=', left: columnRef(column), right: columnRef(`@${names[i]}`) }))
+        .reduce((left, right) => ({ type: 'binary_expr', operator: 'AND', left, right })),
+      parentheses: true
+    }))
+    .reduce((left, right) => ({ type: 'binary_expr', operator: 'OR', left, right }));
+  return sampleSelect(columns, null, [fromEntry(table)], where, keyParameters.length);
+}
+
+/**
+ * SELECT of the first `rows` rows of `table` in identity order; with `afterParameter`, only rows
+ * whose identity value is greater than `@afterParameter` (those inserted since it was read).
+ */
+export function buildIdentitySelect(table: TableReference, columns: string[], identityColumn: string, rows: number, direction: 'ASC' | 'DESC', afterParameter?: string): SqlAst {
+  const where: SqlAst | null = afterParameter
+    ? { type: 'binary_expr', operator: '>', left: columnRef(identityColumn), right: columnRef(`@${afterParameter}`) }
+    : null;
+  return sampleSelect(columns, null, [fromEntry(table)], where, rows, { column: identityColumn, type: direction });
+}